@@ -3,10 +3,33 @@ import { AppMode } from './types';
 import { LiveAgent } from './components/LiveAgent';
 import { BatchTranscriber } from './components/BatchTranscriber';
 import { FastChat } from './components/FastChat';
-import { MicrophoneIcon, ChatBubbleLeftRightIcon, BoltIcon, GlobeAltIcon } from '@heroicons/react/24/outline';
+import { SessionHistory } from './components/SessionHistory';
+import { isDemoMode, getReplay, startReplay, stopReplay } from './utils/providers';
+import { SessionRecording, recordedMode } from './utils/sessionRecorder';
+import { TranscriptAttachment, openThreadAbout } from './utils/chatThreads';
+import { MicrophoneIcon, ChatBubbleLeftRightIcon, BoltIcon, GlobeAltIcon, ClockIcon, XMarkIcon } from '@heroicons/react/24/outline';
 
 const App: React.FC = () => {
   const [mode, setMode] = useState<AppMode>(AppMode.LIVE);
+  const [replay, setReplay] = useState<SessionRecording | null>(getReplay);
+
+  // The next session on the recording's screen plays it back instead of connecting
+  const replayRecording = (recording: SessionRecording) => {
+    startReplay(recording);
+    setReplay(recording);
+    setMode(recordedMode(recording) === 'live' ? AppMode.LIVE : AppMode.TRANSCRIBE);
+  };
+
+  // Fast Chat opens on a new thread grounded on the transcript
+  const askAbout = (attachment: TranscriptAttachment) => {
+    openThreadAbout(attachment);
+    setMode(AppMode.FAST_CHAT);
+  };
+
+  const endReplay = () => {
+    stopReplay();
+    setReplay(null);
+  };
 
   return (
     <div className="h-screen w-full flex flex-col bg-slate-950 text-slate-200 font-sans">
@@ -17,17 +40,31 @@ const App: React.FC = () => {
             <GlobeAltIcon className="w-5 h-5 text-cyan-500" />
             <span className="font-mono font-bold tracking-widest text-lg text-slate-100">EBURON</span>
           </div>
-          <div className="flex items-center gap-2">
-             <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse"></span>
-             <span className="text-xs font-mono text-slate-500">ONLINE</span>
-          </div>
+          {replay ? (
+            <button onClick={endReplay} className="flex items-center gap-2 group" title={`Replaying the recording from ${new Date(replay.startedAt).toLocaleString()}. Click to stop replaying.`}>
+               <span className="w-2 h-2 rounded-full bg-violet-500 animate-pulse"></span>
+               <span className="text-xs font-mono text-violet-400">REPLAY</span>
+               <XMarkIcon className="w-3 h-3 text-slate-500 group-hover:text-white" />
+            </button>
+          ) : isDemoMode() ? (
+            <div className="flex items-center gap-2" title="Replaying recorded sessions with a synthetic microphone. Open without ?provider=mock to go live.">
+               <span className="w-2 h-2 rounded-full bg-amber-500 animate-pulse"></span>
+               <span className="text-xs font-mono text-amber-500">DEMO</span>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2">
+               <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse"></span>
+               <span className="text-xs font-mono text-slate-500">ONLINE</span>
+            </div>
+          )}
       </div>
 
       {/* Main Content Area */}
       <div className="flex-1 overflow-hidden relative">
         {mode === AppMode.LIVE && <LiveAgent />}
-        {mode === AppMode.TRANSCRIBE && <BatchTranscriber />}
+        {mode === AppMode.TRANSCRIBE && <BatchTranscriber onAsk={askAbout} />}
         {mode === AppMode.FAST_CHAT && <FastChat />}
+        {mode === AppMode.HISTORY && <SessionHistory onReplay={replayRecording} onAsk={askAbout} />}
       </div>
 
       {/* Bottom Navigation (Mobile First Sticky) */}
@@ -56,6 +93,14 @@ const App: React.FC = () => {
             <BoltIcon className="w-6 h-6" />
             <span className="text-[10px] uppercase font-bold tracking-wider">Fast Chat</span>
           </button>
+
+          <button 
+            onClick={() => setMode(AppMode.HISTORY)}
+            className={`flex flex-col items-center gap-1 w-full h-full justify-center transition-all ${mode === AppMode.HISTORY ? 'text-cyan-400 bg-slate-800/50' : 'text-slate-500 hover:text-slate-300'}`}
+          >
+            <ClockIcon className="w-6 h-6" />
+            <span className="text-[10px] uppercase font-bold tracking-wider">History</span>
+          </button>
         </div>
       </nav>
     </div>
@@ -0,0 +1,93 @@
+import React, { useEffect, useState, useSyncExternalStore } from 'react';
+import { getCaptureSettings, subscribeCaptureSettings, updateCaptureSettings, listInputDevices } from '../utils/audioCapture';
+import { MicrophoneIcon, ComputerDesktopIcon, SignalIcon } from '@heroicons/react/24/outline';
+
+const GainSlider: React.FC<{ label: string, icon: React.ReactNode, value: number, onChange: (value: number) => void }> = ({ label, icon, value, onChange }) => (
+  <div className="flex items-center gap-3">
+    <span className="text-slate-400" title={label}>{icon}</span>
+    <input
+      type="range"
+      min="0"
+      max="2"
+      step="0.05"
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="flex-1 h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+    />
+    <span className="text-[10px] font-mono text-slate-500 w-9 text-right">{Math.round(value * 100)}%</span>
+  </div>
+);
+
+// Microphone picker and per-source gain. Changes apply immediately to any running capture.
+export const AudioInputControls: React.FC<{ showSystemGain: boolean }> = ({ showSystemGain }) => {
+  const settings = useSyncExternalStore(subscribeCaptureSettings, getCaptureSettings);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  useEffect(() => {
+    const refresh = () => listInputDevices().then(setDevices).catch(e => console.warn('Could not list devices', e));
+    refresh();
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+  }, []);
+
+  return (
+    <div className="w-full flex flex-col gap-3">
+      <select
+        value={settings.deviceId ?? ''}
+        onChange={(e) => updateCaptureSettings({ deviceId: e.target.value || null })}
+        className="w-full bg-slate-900 border border-slate-700 text-slate-300 text-xs font-mono rounded-lg px-3 py-2 focus:outline-none focus:border-cyan-500"
+      >
+        <option value="">Default microphone</option>
+        {devices.map((device, i) => (
+          <option key={device.deviceId} value={device.deviceId}>
+            {/* Labels stay empty until microphone permission has been granted once */}
+            {device.label || `Microphone ${i + 1}`}
+          </option>
+        ))}
+      </select>
+
+      <GainSlider
+        label="Microphone gain"
+        icon={<MicrophoneIcon className="w-4 h-4" />}
+        value={settings.micGain}
+        onChange={(micGain) => updateCaptureSettings({ micGain })}
+      />
+      {showSystemGain && (
+        <GainSlider
+          label="System audio gain"
+          icon={<ComputerDesktopIcon className="w-4 h-4" />}
+          value={settings.systemGain}
+          onChange={(systemGain) => updateCaptureSettings({ systemGain })}
+        />
+      )}
+
+      {/* Voice activity gate */}
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => updateCaptureSettings({ vadEnabled: !settings.vadEnabled })}
+          title="Only stream audio while someone is speaking"
+          className={`flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded-full border transition-colors ${
+            settings.vadEnabled
+              ? 'text-cyan-300 bg-cyan-900/30 border-cyan-500/40'
+              : 'text-slate-500 bg-slate-800 border-slate-700'
+          }`}
+        >
+          <SignalIcon className="w-3.5 h-3.5" />
+          VAD
+        </button>
+        <input
+          type="range"
+          min="0"
+          max="1"
+          step="0.05"
+          value={settings.vadSensitivity}
+          disabled={!settings.vadEnabled}
+          title="Speech detection sensitivity"
+          onChange={(e) => updateCaptureSettings({ vadSensitivity: parseFloat(e.target.value) })}
+          className="flex-1 h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-cyan-500 disabled:opacity-40"
+        />
+        <span className="text-[10px] font-mono text-slate-500 w-9 text-right">{Math.round(settings.vadSensitivity * 100)}%</span>
+      </div>
+    </div>
+  );
+};
@@ -1,30 +1,71 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { GoogleGenAI, LiveServerMessage } from '@google/genai';
-import { saveTranscript } from '../utils/supabaseClient';
-import { float32ToInt16 } from '../utils/audioUtils';
-import { DocumentTextIcon, ArrowUpTrayIcon, PlayCircleIcon, StopCircleIcon, CloudArrowUpIcon, ComputerDesktopIcon, MicrophoneIcon, SpeakerWaveIcon } from '@heroicons/react/24/outline';
+import React, { useState, useRef, useEffect, useSyncExternalStore } from 'react';
+import { saveTranscript, startSession, endSession, updateSessionMetadata, SessionHandle } from '../utils/transcripts';
+import { TranscriptAttachment, attachmentFor } from '../utils/chatThreads';
+import { createAudioCapture, createSyntheticAudioCapture, AudioCapture, getCaptureSettings, subscribeCaptureSettings } from '../utils/audioCapture';
+import { describeGap, LinkState } from '../utils/liveConnection';
+import { ChannelTurn, TranscriptionChannel } from '../utils/transcriptionChannel';
+import { isDemoMode, getLiveProvider, getTranscriptionProvider } from '../utils/providers';
+import { SOURCE_LABELS, speakerStyle } from '../utils/speakers';
+import { SpeechIndicator } from './SpeechIndicator';
+import { AudioInputControls } from './AudioInputControls';
+import { SyncStatusBadge } from './SyncStatusBadge';
+import { ExportMenu } from './ExportMenu';
+import { cuesFromMessages, cuesFromSegments, cuesFromText } from '../utils/transcriptExport';
+import { AudioSource, MeetingSummary, Message, TranscriptSegment } from '../types';
+import { transcribeAudioFile, ChunkProgress, ChunkStatus } from '../utils/fileTranscription';
+import { SegmentTimeline } from './SegmentTimeline';
+import { MeetingSummaryPanel } from './MeetingSummaryPanel';
+import { DocumentTextIcon, ChatBubbleOvalLeftEllipsisIcon, ArrowUpTrayIcon, PlayCircleIcon, StopCircleIcon, ComputerDesktopIcon, MicrophoneIcon, SpeakerWaveIcon, ArrowPathIcon, ArrowsRightLeftIcon } from '@heroicons/react/24/outline';
 
-const FLASH_MODEL = 'gemini-2.5-flash';
-const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+const TRANSCRIBER_INSTRUCTION = "You are a passive professional transcriber. Listen carefully and transcribe the audio stream accurately. Do not reply with audio or commentary. Just listen.";
 
-export const BatchTranscriber: React.FC = () => {
+const CHUNK_STATUS_STYLES: Record<ChunkStatus, string> = {
+  pending: 'bg-slate-700',
+  running: 'bg-cyan-500 animate-pulse',
+  retrying: 'bg-amber-500 animate-pulse',
+  done: 'bg-green-500',
+  failed: 'bg-red-500'
+};
+
+interface BatchTranscriberProps {
+  onAsk: (attachment: TranscriptAttachment) => void;
+}
+
+export const BatchTranscriber: React.FC<BatchTranscriberProps> = ({ onAsk }) => {
   const [transcription, setTranscription] = useState('');
+  const [segments, setSegments] = useState<TranscriptSegment[] | null>(null);
+  const [chunkProgress, setChunkProgress] = useState<ChunkProgress[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
   const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
   const [useSystemAudio, setUseSystemAudio] = useState(false);
+  // Transcribe microphone and system audio as separate streams ("Local" / "Remote")
+  const [dualChannel, setDualChannel] = useState(false);
+  // Dual-channel text still being spoken, per source label
+  const [partials, setPartials] = useState<Record<string, string>>({});
   const [streamError, setStreamError] = useState<string | null>(null);
+  // Something worth knowing that isn't a problem, such as the input switching
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isSpeech, setIsSpeech] = useState(false);
+  const captureSettings = useSyncExternalStore(subscribeCaptureSettings, getCaptureSettings);
+  const [linkState, setLinkState] = useState<LinkState>('closed');
+  // The saved session behind the transcript on screen, once it is complete
+  const [savedSession, setSavedSession] = useState<{ handle: SessionHandle, startedAt: Date } | null>(null);
+  const [summary, setSummary] = useState<MeetingSummary | null>(null);
   
   // Refs for Audio Pipeline
   const audioContextRef = useRef<AudioContext | null>(null);
   const mediaStreamDestRef = useRef<MediaStreamAudioDestinationNode | null>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
-  const sessionRef = useRef<Promise<any> | null>(null);
-  const mediaStreamsRef = useRef<MediaStream[]>([]);
+  const channelsRef = useRef<TranscriptionChannel[]>([]);
+  // Settles once the stopped channels have reported their last turns
+  const channelsStoppedRef = useRef<Promise<unknown>>(Promise.resolve());
+  const captureRef = useRef<AudioCapture | null>(null);
   const chunksRef = useRef<BlobPart[]>([]);
-  const currentTranscriptRef = useRef('');
+  // Completed realtime turns with the time they finished, used for export timings
+  const recordedTurnsRef = useRef<Message[]>([]);
+  const recordingStartedAtRef = useRef<Date>(new Date());
   const transcriptEndRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -36,25 +77,26 @@ export const BatchTranscriber: React.FC = () => {
     if (transcriptEndRef.current) {
         transcriptEndRef.current.scrollIntoView({ behavior: 'smooth' });
     }
-  }, [transcription]);
+  }, [transcription, segments, partials]);
 
   const cleanupAudio = () => {
+    // Close Gemini Sessions (each commits the turn it was still hearing) before
+    // the recorder, whose onstop waits for them
+    channelsStoppedRef.current = Promise.all(channelsRef.current.map(channel => channel.stop()));
+    channelsRef.current = [];
+
     // Stop Recorder
     if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
       mediaRecorderRef.current.stop();
     }
     
     // Stop Streams
-    mediaStreamsRef.current.forEach(stream => {
-        stream.getTracks().forEach(track => track.stop());
-    });
-    mediaStreamsRef.current = [];
-
-    // Disconnect Nodes
-    if (processorRef.current) {
-        processorRef.current.disconnect();
-        processorRef.current = null;
+    if (captureRef.current) {
+        captureRef.current.stop();
+        captureRef.current = null;
     }
+    setLinkState('closed');
+    setPartials({});
 
     // Close Context
     if (audioContextRef.current) {
@@ -62,61 +104,78 @@ export const BatchTranscriber: React.FC = () => {
         audioContextRef.current = null;
     }
 
-    // Close Gemini Session
-    if (sessionRef.current) {
-        sessionRef.current.then(session => {
-            try { session.close(); } catch(e) {}
-        });
-        sessionRef.current = null;
-    }
-    
     setIsRecording(false);
+    setIsSpeech(false);
+  };
+
+  const recordTurn = (turn: ChannelTurn) => {
+    recordedTurnsRef.current.push({
+      id: crypto.randomUUID(),
+      role: 'user',
+      text: turn.text,
+      timestamp: turn.endedAt
+    });
+  };
+
+  const secondsSinceStart = (date: Date) => Math.max(0, (date.getTime() - recordingStartedAtRef.current.getTime()) / 1000);
+
+  // Dual-channel lines are kept as timed segments, merged by when they started
+  // so the two sides interleave the way they were spoken
+  const addSegment = (segment: TranscriptSegment) => {
+    setSegments(prev => [...(prev ?? []), segment].sort((a, b) => a.start - b.start));
+  };
+
+  const buildExport = () => {
+    if (recordedTurnsRef.current.length > 0) {
+      return {
+        title: 'EBURON Realtime Transcript',
+        startedAt: recordingStartedAtRef.current,
+        cues: cuesFromMessages(recordedTurnsRef.current, recordingStartedAtRef.current, 'Speaker')
+      };
+    }
+    return {
+      title: 'EBURON Transcript',
+      startedAt: new Date(),
+      cues: segments ? cuesFromSegments(segments) : cuesFromText(transcription)
+    };
   };
 
   // Real-time Recording & Transcription Logic
   const startRealtimeRecording = async () => {
     setStreamError(null);
+    setNotice(null);
     setTranscription('');
-    currentTranscriptRef.current = '';
+    setSegments(null);
+    setPartials({});
+    recordedTurnsRef.current = [];
+    recordingStartedAtRef.current = new Date();
+    setSavedSession(null);
+    setSummary(null);
     setAudioBlob(null);
     chunksRef.current = [];
 
     try {
+      const provider = getLiveProvider();
       const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-      const ctx = new AudioContextClass({ sampleRate: 16000 });
+      // Runs at the hardware rate; the capture worklet resamples to 16 kHz itself
+      const ctx = new AudioContextClass();
       audioContextRef.current = ctx;
 
-      const mixer = ctx.createGain();
-      
-      // 1. Get Microphone
-      const micStream = await navigator.mediaDevices.getUserMedia({ 
-          audio: { echoCancellation: true, noiseSuppression: true, sampleRate: 16000 } 
-      });
-      mediaStreamsRef.current.push(micStream);
-      const micSource = ctx.createMediaStreamSource(micStream);
-      micSource.connect(mixer);
-
-      // 2. Get System Audio (Optional)
-      if (useSystemAudio) {
-         try {
-             const sysStream = await navigator.mediaDevices.getDisplayMedia({
-                 video: true, // Required to get audio in many browsers
-                 audio: { echoCancellation: false, autoGainControl: false, noiseSuppression: false }
-             });
-             mediaStreamsRef.current.push(sysStream);
-             
-             // Check if user shared audio
-             if (sysStream.getAudioTracks().length > 0) {
-                 const sysSource = ctx.createMediaStreamSource(sysStream);
-                 sysSource.connect(mixer);
-             } else {
-                 setStreamError("System audio not shared. Recording microphone only.");
-             }
-         } catch (e) {
-             console.warn("System audio cancelled", e);
-             setUseSystemAudio(false);
-         }
+      // 1-2. Get Microphone and System Audio (Optional) into one mixer
+      const capture = isDemoMode() ? createSyntheticAudioCapture(ctx, { useSystemAudio }) : await createAudioCapture(ctx, { useSystemAudio });
+      captureRef.current = capture;
+      const mixer = capture.output;
+
+      // Check if user shared audio
+      if (capture.systemAudio === 'no-audio') {
+          setStreamError("System audio not shared. Recording microphone only.");
+      } else if (capture.systemAudio === 'cancelled') {
+          setUseSystemAudio(false);
       }
+      capture.ondevicechange = (label) => setNotice(`Input switched to ${label}.`);
+
+      // Separate channels need a second source to separate
+      const separate = dualChannel && capture.systemAudio === 'shared';
 
       // 3. Setup Recorder Pipeline (Mixer -> Destination -> MediaRecorder)
       const dest = ctx.createMediaStreamDestination();
@@ -125,88 +184,86 @@ export const BatchTranscriber: React.FC = () => {
       
       const recorder = new MediaRecorder(dest.stream);
       mediaRecorderRef.current = recorder;
+
+      const sessionStartedAt = new Date();
+      const transcriptSession = startSession('batch', {
+        source: 'realtime',
+        provider: provider.kind,
+        model: provider.model,
+        systemAudio: useSystemAudio,
+        dualChannel: separate
+      });
       
       recorder.ondataavailable = (e) => {
           if (e.data.size > 0) chunksRef.current.push(e.data);
       };
       
+      // The session is only ended once every channel has saved its last turn, so
+      // its turn count is right and Ask/Summarize see the whole transcript
       recorder.onstop = async () => {
           const blob = new Blob(chunksRef.current, { type: 'audio/webm' });
           setAudioBlob(blob);
-          // Save final transcript
-          if (currentTranscriptRef.current.trim()) {
-            await saveTranscript(currentTranscriptRef.current, 'model', 'batch');
-          }
+          await channelsStoppedRef.current;
+          endSession(transcriptSession);
+          setSavedSession({ handle: transcriptSession, startedAt: sessionStartedAt });
       };
       
       recorder.start();
 
-      // 4. Setup Live API Pipeline (Mixer -> Processor -> Gemini)
-      // Use Live API for Realtime Transcription
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const processor = ctx.createScriptProcessor(4096, 1, 1);
-      processorRef.current = processor;
-      mixer.connect(processor);
-      
-      // Create a mute node to prevent feedback but keep the graph active
-      const mute = ctx.createGain();
-      mute.gain.value = 0;
-      processor.connect(mute);
-      mute.connect(ctx.destination);
-
-      const sessionPromise = ai.live.connect({
-          model: LIVE_MODEL,
-          config: {
-              responseModalities: ['AUDIO' as any],
-              speechConfig: {
-                voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } },
-              },
-              inputAudioTranscription: {}, // Fixed: Empty object for default configuration
-              systemInstruction: "You are a passive professional transcriber. Listen carefully and transcribe the audio stream accurately. Do not reply with audio or commentary. Just listen.",
-          },
-          callbacks: {
-              onopen: () => {
-                  console.log("Transcriber Connected");
-                  
-                  processor.onaudioprocess = (e) => {
-                      const inputData = e.inputBuffer.getChannelData(0);
-                      const pcm16 = float32ToInt16(inputData);
-                      
-                      let binary = '';
-                      const len = pcm16.byteLength;
-                      const bytes = new Uint8Array(pcm16.buffer);
-                      for (let i = 0; i < len; i++) {
-                          binary += String.fromCharCode(bytes[i]);
-                      }
-                      const base64 = btoa(binary);
-
-                      sessionPromise.then(session => {
-                          session.sendRealtimeInput({
-                              media: { mimeType: 'audio/pcm;rate=16000', data: base64 }
-                          });
-                      });
-                  };
-              },
-              onmessage: (msg: LiveServerMessage) => {
-                  // We only care about inputTranscription (what the user/system said)
-                  if (msg.serverContent?.inputTranscription) {
-                      const text = msg.serverContent.inputTranscription.text;
-                      if (text) {
-                          currentTranscriptRef.current += text;
-                          setTranscription(prev => prev + text);
-                      }
-                  }
-              },
-              onclose: () => {
-                  console.log("Transcriber Closed");
-              },
-              onerror: (e) => {
-                  console.error("Transcriber Error", e);
-                  setStreamError("Connection lost.");
+      // 4. Setup Transcription Pipelines (Source -> Capture Worklet -> Provider)
+      const inputs: { node: AudioNode, source: AudioSource | null }[] = separate
+        ? [{ node: capture.micGain, source: 'local' }, { node: capture.systemGain, source: 'remote' }]
+        : [{ node: mixer, source: null }];
+      const speaking = inputs.map(() => false);
+      const linkStates = inputs.map((): LinkState => 'connecting');
+
+      for (const [i, { node, source }] of inputs.entries()) {
+          const channel = await provider.openTranscriptionChannel(node, {
+              systemInstruction: TRANSCRIBER_INSTRUCTION
+          });
+          channelsRef.current.push(channel);
+          const label = source ? SOURCE_LABELS[source] : null;
+
+          channel.ontext = (text) => {
+              if (label) setPartials(prev => ({ ...prev, [label]: (prev[label] ?? '') + text }));
+              else setTranscription(prev => prev + text);
+          };
+
+          // Persist each finished turn so a crash only loses the one in progress
+          channel.onturn = (turn) => {
+              if (label) {
+                  setPartials(prev => ({ ...prev, [label]: '' }));
+                  addSegment({ start: secondsSinceStart(turn.startedAt), end: secondsSinceStart(turn.endedAt), speaker: label, text: turn.text });
+                  saveTranscript(`[${label}]: ${turn.text}`, 'model', 'batch', transcriptSession);
+              } else {
+                  recordTurn(turn);
+                  saveTranscript(turn.text, 'model', 'batch', transcriptSession);
               }
-          }
-      });
-      sessionRef.current = sessionPromise;
+          };
+
+          channel.onspeech = (isSpeech) => {
+              speaking[i] = isSpeech;
+              setIsSpeech(speaking.some(Boolean));
+          };
+
+          channel.onstatechange = (state) => {
+              linkStates[i] = state;
+              setLinkState(linkStates.includes('reconnecting') ? 'reconnecting' : state);
+          };
+
+          channel.ongap = (gap) => {
+              const marker = label ? `${label}: ${describeGap(gap)}` : describeGap(gap);
+              if (label) addSegment({ start: secondsSinceStart(gap.from), end: secondsSinceStart(gap.to), speaker: 'System', text: `[${marker}]` });
+              else setTranscription(prev => `${prev}\n[${marker}]\n`);
+              saveTranscript(marker, 'system', 'batch', transcriptSession);
+          };
+
+          // Retries exhausted: the recording itself carries on
+          channel.onclose = (reason) => {
+              console.error("Transcriber Closed", label ?? '', reason);
+              setStreamError(`Connection lost${label ? ` on the ${label} channel` : ''} (${reason}). Recording continues and the audio is kept when you stop.`);
+          };
+      }
       setIsRecording(true);
 
     } catch (err: any) {
@@ -226,38 +283,68 @@ export const BatchTranscriber: React.FC = () => {
     if (file) {
       setAudioBlob(file);
       setTranscription(''); // Clear previous
+      setSegments(null);
+      setChunkProgress([]);
+      setSavedSession(null);
+      setSummary(null);
+      recordedTurnsRef.current = [];
     }
   };
 
   const transcribeUploadedFile = async () => {
     if (!audioBlob) return;
     setIsProcessing(true);
+    setChunkProgress([]);
     try {
-      const reader = new FileReader();
-      reader.readAsDataURL(audioBlob);
-      reader.onloadend = async () => {
-        const base64data = (reader.result as string).split(',')[1];
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        const response = await ai.models.generateContent({
-          model: FLASH_MODEL,
-          contents: {
-            parts: [
-              { inlineData: { mimeType: audioBlob.type || 'audio/webm', data: base64data } },
-              { text: "Transcribe this audio precisely." }
-            ]
-          }
-        });
-        const text = response.text || "No transcription generated.";
-        setTranscription(text);
-        await saveTranscript(text, 'model', 'batch');
-        setIsProcessing(false);
-      };
+      const provider = getTranscriptionProvider();
+      let chunkCount = 1;
+      const result = await transcribeAudioFile(audioBlob, provider, progress => {
+        chunkCount = progress.length;
+        setChunkProgress(progress);
+      });
+      setSegments(result.segments);
+      setTranscription(result.text);
+
+      const sessionStartedAt = new Date();
+      const transcriptSession = startSession('batch', {
+        source: 'upload',
+        provider: provider.kind,
+        model: provider.model,
+        mimeType: audioBlob.type || 'audio/webm',
+        bytes: audioBlob.size,
+        structured: result.segments !== null,
+        chunks: chunkCount
+      });
+      if (result.segments) {
+        // One turn per segment keeps speakers apart when the session is reopened
+        for (const segment of result.segments) {
+          await saveTranscript(`${segment.speaker}: ${segment.text}`, 'model', 'batch', transcriptSession);
+        }
+      } else {
+        await saveTranscript(result.text, 'model', 'batch', transcriptSession);
+      }
+      endSession(transcriptSession);
+      setSavedSession({ handle: transcriptSession, startedAt: sessionStartedAt });
     } catch (e) {
-        setIsProcessing(false);
-        setTranscription("Error processing file.");
+      console.error("File transcription failed", e);
+      setTranscription("Error processing file.");
+    } finally {
+      setIsProcessing(false);
     }
   };
 
+  // Kept with the session so History shows it too
+  const saveSummary = (next: MeetingSummary) => {
+    setSummary(next);
+    if (!savedSession) return;
+    const { handle } = savedSession;
+    handle.metadata = { ...handle.metadata, summary: next };
+    updateSessionMetadata(handle.id, handle.metadata);
+  };
+
+  const hasTranscript = Boolean(transcription || segments?.length);
+  const hasPartials = Object.values(partials).some((text: string) => text.trim());
+
   return (
     <div className="p-6 bg-slate-900 h-full flex flex-col overflow-y-auto">
         <h2 className="text-xl text-cyan-400 font-mono mb-6 uppercase tracking-widest border-b border-slate-700 pb-2">
@@ -287,14 +374,47 @@ export const BatchTranscriber: React.FC = () => {
                     System Audio
                     {useSystemAudio && <span className="w-1.5 h-1.5 rounded-full bg-purple-400 ml-1"></span>}
                  </button>
+
+                 <button 
+                    onClick={() => !isRecording && setDualChannel(!dualChannel)}
+                    disabled={isRecording || !useSystemAudio}
+                    title="Transcribe microphone (Local) and system audio (Remote) separately"
+                    className={`flex items-center gap-2 px-3 py-1.5 rounded-full border text-xs font-medium uppercase tracking-wide transition-all ${
+                        dualChannel && useSystemAudio
+                        ? 'bg-emerald-900/30 border-emerald-500/50 text-emerald-300 shadow-sm shadow-emerald-500/20' 
+                        : 'bg-slate-700/50 border-slate-600 text-slate-400 hover:bg-slate-700'
+                    } ${isRecording || !useSystemAudio ? 'opacity-50 cursor-not-allowed' : ''}`}
+                 >
+                    <ArrowsRightLeftIcon className="w-4 h-4" />
+                    Separate Channels
+                    {dualChannel && useSystemAudio && <span className="w-1.5 h-1.5 rounded-full bg-emerald-400 ml-1"></span>}
+                 </button>
+            </div>
+
+            {/* Input Device & Gain (adjustable while recording) */}
+            <div className="mb-4">
+                <AudioInputControls showSystemGain={useSystemAudio} />
             </div>
 
+            {linkState === 'reconnecting' && (
+                <div className="mb-4 text-xs text-amber-400 bg-amber-500/10 border border-amber-500/20 px-3 py-2 rounded flex items-center gap-2">
+                    <ArrowPathIcon className="w-4 h-4 animate-spin" />
+                    Connection lost. Reconnecting; audio is buffered meanwhile.
+                </div>
+            )}
+
             {streamError && (
                 <div className="mb-4 text-xs text-red-400 bg-red-500/10 border border-red-500/20 px-3 py-2 rounded">
                     {streamError}
                 </div>
             )}
 
+            {notice && (
+                <div className="mb-4 text-xs text-slate-300 bg-slate-800/50 border border-slate-700 px-3 py-2 rounded">
+                    {notice}
+                </div>
+            )}
+
             <div className="flex gap-4 mb-6">
                 <button
                     onClick={isRecording ? stopRealtimeRecording : startRealtimeRecording}
@@ -340,7 +460,7 @@ export const BatchTranscriber: React.FC = () => {
                        <span className="text-cyan-500 uppercase">{audioBlob.type || 'WEB/M'}</span>
                     </div>
                     {/* Only show Transcribe button if it was an upload (not a fresh recording which is already transcribed) */}
-                    {!transcription && (
+                    {!hasTranscript && (
                         <button 
                             onClick={transcribeUploadedFile}
                             disabled={isProcessing}
@@ -354,6 +474,26 @@ export const BatchTranscriber: React.FC = () => {
                             PROCESS UPLOAD
                         </button>
                     )}
+
+                    {/* Per-chunk progress for long files */}
+                    {chunkProgress.length > 0 && (isProcessing || chunkProgress.some(c => c.status === 'failed')) && (
+                        <div className="flex flex-col gap-1.5">
+                            <div className="flex justify-between text-[10px] font-mono text-slate-500 uppercase tracking-wider">
+                                <span>Chunks {chunkProgress.filter(c => c.status === 'done').length}/{chunkProgress.length}</span>
+                                {chunkProgress.some(c => c.status === 'retrying') && <span className="text-amber-400">Retrying</span>}
+                                {chunkProgress.some(c => c.status === 'failed') && <span className="text-red-400">Some sections failed</span>}
+                            </div>
+                            <div className="flex gap-0.5 h-1.5">
+                                {chunkProgress.map(chunk => (
+                                    <div
+                                        key={chunk.index}
+                                        title={`${Math.floor(chunk.start / 60)}:${Math.floor(chunk.start % 60).toString().padStart(2, '0')} · ${chunk.status}${chunk.attempts > 1 ? ` (attempt ${chunk.attempts})` : ''}`}
+                                        className={`flex-1 rounded-full ${CHUNK_STATUS_STYLES[chunk.status]}`}
+                                    ></div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
                 </div>
             )}
         </div>
@@ -369,24 +509,48 @@ export const BatchTranscriber: React.FC = () => {
                                 <span className="text-[10px] text-red-400 font-bold tracking-wider">LIVE</span>
                             </span>
                         )}
-                        {!isRecording && transcription && (
-                            <span className="text-[10px] text-green-400 flex items-center gap-1 bg-green-400/10 px-2 py-0.5 rounded-full border border-green-400/20">
-                                <CloudArrowUpIcon className="w-3 h-3" />
-                                SAVED
-                            </span>
-                        )}
+                        {isRecording && captureSettings.vadEnabled && <SpeechIndicator isSpeech={isSpeech} />}
+                        {!isRecording && hasTranscript && <SyncStatusBadge />}
                     </div>
+                    {!isRecording && hasTranscript && (
+                        <div className="flex items-center gap-2">
+                            {savedSession && (
+                                <button
+                                    onClick={() => onAsk(attachmentFor({ id: savedSession.handle.id, mode: 'batch', startedAt: savedSession.startedAt }))}
+                                    className="flex items-center gap-1 text-[10px] font-bold tracking-wider px-2 py-0.5 rounded-full border text-cyan-400 border-cyan-500/30 bg-cyan-900/20 hover:bg-cyan-900/40 transition-colors"
+                                >
+                                    <ChatBubbleOvalLeftEllipsisIcon className="w-3 h-3" />
+                                    ASK ABOUT THIS
+                                </button>
+                            )}
+                            <ExportMenu getTranscript={buildExport} />
+                        </div>
+                    )}
             </div>
             
-            <div className="flex-1 overflow-y-auto font-mono text-sm text-slate-300 whitespace-pre-wrap leading-relaxed z-10 p-4 bg-slate-900/50 rounded-lg shadow-inner">
-                {transcription || (
+            <div className={`flex-1 overflow-y-auto text-sm text-slate-300 leading-relaxed z-10 p-4 bg-slate-900/50 rounded-lg shadow-inner ${segments ? '' : 'font-mono whitespace-pre-wrap'}`}>
+                {segments ? <SegmentTimeline segments={segments} /> : transcription || (!hasPartials && (
                     <span className="text-slate-600 italic">
                         {isRecording ? "Listening..." : "Ready to transcribe..."}
                     </span>
-                )}
+                ))}
+                {/* Dual-channel lines still being spoken */}
+                {Object.entries(partials).filter(([, text]: [string, string]) => text.trim()).map(([label, text]) => (
+                    <div key={label} className="flex gap-3 pl-[4.25rem] pb-2 opacity-70">
+                        <span className={`self-start text-[10px] font-bold uppercase tracking-wider border rounded-full px-2 py-0.5 ${speakerStyle(label)}`}>{label}</span>
+                        <span className="italic">{text}</span>
+                    </div>
+                ))}
                 <div ref={transcriptEndRef} />
             </div>
         </div>
+
+        {/* Minutes, once the transcript is saved */}
+        {!isRecording && hasTranscript && savedSession && (
+            <div className="mt-6 shrink-0">
+                <MeetingSummaryPanel summary={summary} getTranscript={buildExport} onSave={saveSummary} />
+            </div>
+        )}
     </div>
   );
 };
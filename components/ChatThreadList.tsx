@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { ChatThread, modelLabel } from '../utils/chatThreads';
+import { PlusIcon, PencilIcon, TrashIcon } from '@heroicons/react/24/outline';
+
+interface ChatThreadListProps {
+  threads: ChatThread[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+// Fast Chat threads, most recently used first. Shown as a sidebar on wide
+// screens and inside a drawer on phones.
+export const ChatThreadList: React.FC<ChatThreadListProps> = ({ threads, activeId, onSelect, onCreate, onRename, onDelete }) => {
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const startEditing = (thread: ChatThread) => {
+    setEditing(thread.id);
+    setDraft(thread.title);
+  };
+
+  // An empty name keeps the old one
+  const commit = () => {
+    if (editing && draft.trim()) onRename(editing, draft.trim());
+    setEditing(null);
+  };
+
+  const sorted = [...threads].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-3 border-b border-slate-800">
+        <button
+          onClick={onCreate}
+          className="w-full flex items-center justify-center gap-2 bg-cyan-600 hover:bg-cyan-500 text-white text-xs font-mono uppercase tracking-wider rounded-lg px-3 py-2 transition-colors"
+        >
+          <PlusIcon className="w-4 h-4" /> New chat
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {sorted.map(thread => (
+          <div
+            key={thread.id}
+            className={`group flex items-center gap-1 rounded-lg border transition-colors ${thread.id === activeId ? 'bg-slate-800 border-cyan-500/30' : 'border-transparent hover:bg-slate-800/60'}`}
+          >
+            {editing === thread.id ? (
+              <input
+                autoFocus
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={commit}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commit();
+                  if (e.key === 'Escape') setEditing(null);
+                }}
+                className="flex-1 min-w-0 m-1 bg-slate-900 border border-slate-600 text-sm text-white rounded px-2 py-1 focus:outline-none focus:border-cyan-500"
+              />
+            ) : (
+              <button onClick={() => onSelect(thread.id)} className="flex-1 min-w-0 text-left px-3 py-2">
+                <div className={`text-sm truncate ${thread.id === activeId ? 'text-white' : 'text-slate-300'}`}>{thread.title}</div>
+                <div className="text-[10px] font-mono text-slate-500 truncate">
+                  {modelLabel(thread.model)} · {thread.messages.length} messages
+                </div>
+              </button>
+            )}
+            {editing !== thread.id && (
+              <div className="flex items-center pr-2 gap-1 md:opacity-0 md:group-hover:opacity-100 transition-opacity">
+                <button onClick={() => startEditing(thread)} title="Rename" className="p-1 text-slate-500 hover:text-white">
+                  <PencilIcon className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => onDelete(thread.id)} title="Delete" className="p-1 text-slate-500 hover:text-red-400">
+                  <TrashIcon className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ExportableTranscript, EXPORT_FORMATS, ExportFormat, downloadTranscript } from '../utils/transcriptExport';
+import { ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+
+// Builds the transcript lazily so the parent doesn't recompute cues on every render
+export const ExportMenu: React.FC<{ getTranscript: () => ExportableTranscript | null, disabled?: boolean }> = ({ getTranscript, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const close = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [isOpen]);
+
+  const handleExport = (format: ExportFormat) => {
+    setIsOpen(false);
+    const transcript = getTranscript();
+    if (transcript && transcript.cues.length > 0) {
+      downloadTranscript(transcript, format);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className={`flex items-center gap-1 text-[10px] font-bold tracking-wider px-2 py-0.5 rounded-full border transition-colors ${
+          disabled
+            ? 'text-slate-600 border-slate-700 cursor-not-allowed'
+            : 'text-cyan-400 border-cyan-500/30 bg-cyan-900/20 hover:bg-cyan-900/40'
+        }`}
+      >
+        <ArrowDownTrayIcon className="w-3 h-3" />
+        EXPORT
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-44 bg-slate-800 border border-slate-700 rounded-lg shadow-xl z-30 overflow-hidden animate-fade-in">
+          {EXPORT_FORMATS.map(({ format, label }) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="w-full text-left px-3 py-2 text-xs font-mono text-slate-300 hover:bg-slate-700 hover:text-white transition-colors"
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
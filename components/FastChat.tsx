@@ -1,83 +1,368 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { GoogleGenAI } from '@google/genai';
-import { PaperAirplaneIcon, BoltIcon } from '@heroicons/react/24/solid';
-import { saveTranscript } from '../utils/supabaseClient';
+import { Chat, GoogleGenAI } from '@google/genai';
+import { PaperAirplaneIcon, BoltIcon, StopIcon, ArrowPathIcon, XMarkIcon, Bars3Icon, AdjustmentsHorizontalIcon, PaperClipIcon, DocumentTextIcon } from '@heroicons/react/24/solid';
+import { saveTranscript, startSession, endSession, getSessionTurns, transcriptQueue, SessionHandle } from '../utils/transcripts';
+import {
+  CHAT_MODELS, ChatThread, TranscriptAttachment, createThread, loadActiveThreadId, loadThreads, modelLabel,
+  saveActiveThreadId, saveThreads, titleFrom
+} from '../utils/chatThreads';
+import { Passage, chunkTranscript, citedPassages, contextInstruction, formatOffset, selectPassages } from '../utils/transcriptRetrieval';
+import { ChatThreadList } from './ChatThreadList';
+import { TranscriptPicker } from './TranscriptPicker';
+import { Markdown } from './Markdown';
 import { Message } from '../types';
 
-const LITE_MODEL = 'gemini-flash-lite-latest';
+// A turn whose reply never arrived; the user message stays and can be sent again
+interface FailedTurn {
+  messageId: string;
+  text: string;
+  error: string;
+}
+
+const toHistory = (messages: Message[]) => messages
+  .filter(m => m.role !== 'system')
+  .map(m => ({ role: m.role, parts: [{ text: m.text }] }));
+
+const initialThreads = () => {
+  const stored = loadThreads();
+  return stored.length > 0 ? stored : [createThread()];
+};
 
 export const FastChat: React.FC = () => {
-  const [messages, setMessages] = useState<Message[]>([
-      { id: '1', role: 'system', text: 'EBURON Fast Response Unit online. Using Gemini Flash Lite.', timestamp: new Date() }
-  ]);
+  const [threads, setThreads] = useState<ChatThread[]>(initialThreads);
+  const [activeId, setActiveId] = useState<string>(() => {
+    const remembered = loadActiveThreadId();
+    return threads.some(t => t.id === remembered) ? remembered! : threads[0].id;
+  });
   const [input, setInput] = useState('');
   const [isThinking, setIsThinking] = useState(false);
+  // The reply being streamed, once its first text has arrived
+  const [streamingId, setStreamingId] = useState<string | null>(null);
+  const [failedTurn, setFailedTurn] = useState<FailedTurn | null>(null);
+  const [showDrawer, setShowDrawer] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showPicker, setShowPicker] = useState(false);
   const bottomRef = useRef<HTMLDivElement>(null);
+  // One persisted session per thread visit
+  const transcriptSessionRef = useRef<{ threadId: string, handle: SessionHandle } | null>(null);
+  // The SDK chat keeps its own history; it is dropped and rebuilt from the
+  // thread whenever the two could differ (a stopped or failed turn, new
+  // settings, another thread)
+  const chatRef = useRef<Chat | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Turns of attached transcripts, loaded once rather than for every question
+  const transcriptTurnsRef = useRef(new Map<string, Message[]>());
+
+  const thread = threads.find(t => t.id === activeId) ?? threads[0];
+  const messages = thread.messages;
 
   useEffect(() => {
     bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, failedTurn]);
 
-  const sendMessage = async () => {
-    if (!input.trim()) return;
-    
-    const userText = input;
-    const userMsg: Message = { id: Date.now().toString(), role: 'user', text: userText, timestamp: new Date() };
-    setMessages(prev => [...prev, userMsg]);
-    setInput('');
+  useEffect(() => {
+    saveThreads(threads);
+  }, [threads]);
+
+  useEffect(() => {
+    saveActiveThreadId(activeId);
+  }, [activeId]);
+
+  const endTranscriptSession = () => {
+    if (transcriptSessionRef.current) {
+      endSession(transcriptSessionRef.current.handle);
+      transcriptSessionRef.current = null;
+    }
+  };
+
+  useEffect(() => {
+    return () => {
+      abortRef.current?.abort();
+      endTranscriptSession();
+    };
+  }, []);
+
+  const updateThread = (id: string, update: (thread: ChatThread) => Partial<ChatThread>) =>
+    setThreads(prev => prev.map(t => (t.id === id ? { ...t, ...update(t) } : t)));
+
+  const loadTranscriptTurns = async (sessionId: string) => {
+    const cached = transcriptTurnsRef.current.get(sessionId);
+    if (cached) return cached;
+    const turns = await getSessionTurns(sessionId);
+    // An empty result may be a session whose turns are still being written; ask again next time
+    if (turns.length > 0) transcriptTurnsRef.current.set(sessionId, turns);
+    return turns;
+  };
+
+  // The passages of the thread's transcripts that go along with `question`.
+  // The previous question is searched too, so follow-ups like "who said that?" still match.
+  const groundingFor = async (target: ChatThread, question: string, history: Message[]) => {
+    // A transcript attached straight from Transcribe may still be in the write queue
+    await transcriptQueue.flush();
+    const turns = await Promise.all(target.attachments.map(a => loadTranscriptTurns(a.sessionId)));
+    const all = target.attachments.flatMap((attachment, i) => chunkTranscript(i + 1, attachment, turns[i]));
+    const previous = [...history].reverse().find(m => m.role === 'user')?.text ?? '';
+    const { passages, complete } = selectPassages(`${question}\n${previous}`, all);
+    return { passages, instruction: contextInstruction(target.attachments, passages, complete) };
+  };
+
+  // Streams the reply to `userText` into its bubble. `history` is everything before it.
+  const runTurn = async (target: ChatThread, messageId: string, userText: string, history: Message[]) => {
+    setFailedTurn(null);
     setIsThinking(true);
-    
-    // Save User Msg
-    saveTranscript(userText, 'user', 'chat');
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const replyId = crypto.randomUUID();
+    const session = transcriptSessionRef.current?.handle;
+    let modelText = '';
+    let passages: Passage[] = [];
+    const citations = () => (passages.length > 0 ? { citations: citedPassages(modelText, passages) } : {});
+
+    const showReply = (extra: Partial<Message> = {}) => updateThread(target.id, t => {
+      const reply: Message = { id: replyId, role: 'model', text: modelText, timestamp: new Date(), ...extra };
+      const messages = t.messages.some(m => m.id === replyId) ? t.messages.map(m => (m.id === replyId ? reply : m)) : [...t.messages, reply];
+      return { messages, updatedAt: new Date() };
+    });
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      // We use generateContent for single turn speed, or could use Chat. maintaining history manually for simplicity here
-      const history = messages.filter(m => m.role !== 'system').map(m => ({
-          role: m.role,
-          parts: [{ text: m.text }]
-      }));
-
-      const chat = ai.chats.create({
-          model: LITE_MODEL,
-          history: history,
-          config: {
-              systemInstruction: "You are Eburon. Answer concisely and extremely fast.",
-          }
+      let systemInstruction = target.systemPrompt;
+      if (target.attachments.length > 0) {
+        const grounding = await groundingFor(target, userText, history);
+        passages = grounding.passages;
+        systemInstruction = `${target.systemPrompt}\n\n${grounding.instruction}`;
+      }
+
+      if (!chatRef.current) {
+        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+        chatRef.current = ai.chats.create({
+          model: target.model,
+          history: toHistory(history),
+          config: { systemInstruction: target.systemPrompt }
+        });
+      }
+
+      // Per-request config replaces the chat's, so the instruction goes along with the signal
+      const stream = await chatRef.current.sendMessageStream({
+        message: userText,
+        config: { systemInstruction, abortSignal: controller.signal }
       });
+      for await (const chunk of stream) {
+        if (!chunk.text) continue;
+        modelText += chunk.text;
+        setStreamingId(replyId);
+        showReply();
+      }
+      if (controller.signal.aborted) throw new DOMException('Stopped', 'AbortError');
+      if (!modelText.trim()) throw new Error('No response received.');
+      showReply(citations());
 
-      const result = await chat.sendMessage({ message: userText });
-      const modelText = result.text || "No response received.";
-      
-      const responseMsg: Message = {
-          id: (Date.now() + 1).toString(),
-          role: 'model',
-          text: modelText,
-          timestamp: new Date()
-      };
-      setMessages(prev => [...prev, responseMsg]);
-      
-      // Save Model Msg
-      saveTranscript(modelText, 'model', 'chat');
-
-    } catch (e) {
-      console.error(e);
-      setMessages(prev => [...prev, { id: 'err', role: 'system', text: 'Communication failure.', timestamp: new Date() }]);
+      // Only the finished text is persisted
+      saveTranscript(modelText, 'model', 'chat', session);
+    } catch (e: any) {
+      chatRef.current = null;
+      if (controller.signal.aborted) {
+        // Stopped: what had arrived is kept as the reply
+        if (modelText.trim()) {
+          showReply({ interrupted: true, ...citations() });
+          saveTranscript(modelText, 'model', 'chat', session);
+        }
+      } else {
+        console.error(e);
+        updateThread(target.id, t => ({ messages: t.messages.filter(m => m.id !== replyId) }));
+        setFailedTurn({ messageId, text: userText, error: e?.message || 'Communication failure.' });
+      }
     } finally {
+      abortRef.current = null;
+      setStreamingId(null);
       setIsThinking(false);
     }
   };
 
+  const sendMessage = () => {
+    if (!input.trim() || isThinking) return;
+
+    const userText = input;
+    const userMsg: Message = { id: crypto.randomUUID(), role: 'user', text: userText, timestamp: new Date() };
+    updateThread(thread.id, t => ({ title: titleFrom(t, userText), messages: [...t.messages, userMsg], updatedAt: new Date() }));
+    setInput('');
+
+    // First message of a visit opens the persisted session
+    if (!transcriptSessionRef.current) {
+      transcriptSessionRef.current = {
+        threadId: thread.id,
+        handle: startSession('chat', {
+          model: thread.model,
+          thread: titleFrom(thread, userText),
+          threadId: thread.id,
+          ...(thread.attachments.length > 0 && { transcripts: thread.attachments.map(a => a.sessionId) })
+        })
+      };
+    }
+
+    // Save User Msg
+    saveTranscript(userText, 'user', 'chat', transcriptSessionRef.current.handle);
+    runTurn(thread, userMsg.id, userText, messages);
+  };
+
+  // The user message is already on screen and saved; only the reply is asked for again
+  const retry = () => {
+    if (!failedTurn || isThinking) return;
+    const index = messages.findIndex(m => m.id === failedTurn.messageId);
+    runTurn(thread, failedTurn.messageId, failedTurn.text, index >= 0 ? messages.slice(0, index) : messages);
+  };
+
+  // Leaving a thread stops its reply (keeping what arrived) and closes its session
+  const leaveThread = () => {
+    abortRef.current?.abort();
+    chatRef.current = null;
+    endTranscriptSession();
+    setFailedTurn(null);
+    setShowPicker(false);
+    setInput('');
+  };
+
+  const selectThread = (id: string) => {
+    setShowDrawer(false);
+    if (id === activeId) return;
+    leaveThread();
+    setActiveId(id);
+  };
+
+  const newThread = () => {
+    const created = createThread();
+    leaveThread();
+    setThreads(prev => [created, ...prev]);
+    setActiveId(created.id);
+    setShowDrawer(false);
+  };
+
+  const deleteThread = (id: string) => {
+    if (!window.confirm('Delete this conversation? Turns already saved to History are kept.')) return;
+    const remaining = threads.filter(t => t.id !== id);
+    if (id === activeId) leaveThread();
+    if (remaining.length === 0) {
+      const created = createThread();
+      setThreads([created]);
+      setActiveId(created.id);
+      return;
+    }
+    setThreads(remaining);
+    if (id === activeId) setActiveId(remaining[0].id);
+  };
+
+  // The model and prompt apply from the next message on
+  const updateSettings = (update: Partial<Pick<ChatThread, 'model' | 'systemPrompt'>>) => {
+    chatRef.current = null;
+    updateThread(thread.id, () => update);
+  };
+
+  // Takes effect from the next question; the chat history itself is unchanged
+  const toggleAttachment = (attachment: TranscriptAttachment) => updateThread(thread.id, t => ({
+    attachments: t.attachments.some(a => a.sessionId === attachment.sessionId)
+      ? t.attachments.filter(a => a.sessionId !== attachment.sessionId)
+      : [...t.attachments, attachment]
+  }));
+
+  const threadList = (
+    <ChatThreadList
+      threads={threads}
+      activeId={thread.id}
+      onSelect={selectThread}
+      onCreate={newThread}
+      onRename={(id, title) => updateThread(id, () => ({ title }))}
+      onDelete={deleteThread}
+    />
+  );
+
   return (
-    <div className="flex flex-col h-full bg-slate-900">
+    <div className="flex h-full bg-slate-900 relative">
+      {/* Threads: sidebar on wide screens */}
+      <div className="hidden md:flex w-64 flex-col border-r border-slate-800 bg-slate-950/40">
+        {threadList}
+      </div>
+
+      {/* Threads: drawer on phones */}
+      {showDrawer && (
+        <div className="md:hidden absolute inset-0 z-30 flex">
+          <div className="w-72 max-w-[85%] h-full bg-slate-900 border-r border-slate-800 shadow-2xl">
+            {threadList}
+          </div>
+          <button onClick={() => setShowDrawer(false)} aria-label="Close conversations" className="flex-1 bg-black/50"></button>
+        </div>
+      )}
+
+      <div className="flex-1 min-w-0 flex flex-col">
         {/* Header */}
         <div className="p-4 border-b border-slate-800 bg-slate-900/50 backdrop-blur sticky top-0 z-10 flex items-center gap-2">
+            <button onClick={() => setShowDrawer(true)} title="Conversations" className="md:hidden text-slate-400 hover:text-white transition-colors">
+                <Bars3Icon className="w-5 h-5" />
+            </button>
             <BoltIcon className="w-5 h-5 text-yellow-400" />
-            <h2 className="text-sm font-mono text-slate-300 tracking-wider">LITE_SPEED_LINK</h2>
+            <h2 className="text-sm font-mono text-slate-300 tracking-wider truncate">{thread.title}</h2>
+            <button
+                onClick={() => setShowPicker(!showPicker)}
+                title="Attach transcripts"
+                className={`ml-auto transition-colors ${showPicker ? 'text-cyan-400' : 'text-slate-500 hover:text-slate-300'}`}
+            >
+                <PaperClipIcon className="w-5 h-5" />
+            </button>
+            <button
+                onClick={() => setShowSettings(!showSettings)}
+                title="Model and system prompt"
+                className={`transition-colors ${showSettings ? 'text-cyan-400' : 'text-slate-500 hover:text-slate-300'}`}
+            >
+                <AdjustmentsHorizontalIcon className="w-5 h-5" />
+            </button>
         </div>
 
+        {showSettings && (
+            <div className="p-4 border-b border-slate-800 bg-slate-800/40 space-y-3">
+                <label className="flex items-center gap-3 text-xs font-mono uppercase tracking-wider text-slate-400">
+                    Model
+                    <select
+                        value={thread.model}
+                        onChange={(e) => updateSettings({ model: e.target.value })}
+                        className="bg-slate-900 border border-slate-600 text-slate-200 rounded-lg px-2 py-1 text-xs focus:outline-none focus:border-cyan-500"
+                    >
+                        {CHAT_MODELS.map(model => <option key={model.id} value={model.id}>{model.label}</option>)}
+                    </select>
+                </label>
+                <label className="block text-xs font-mono uppercase tracking-wider text-slate-400">
+                    System prompt
+                    <textarea
+                        value={thread.systemPrompt}
+                        onChange={(e) => updateSettings({ systemPrompt: e.target.value })}
+                        rows={3}
+                        className="mt-1 w-full bg-slate-900 border border-slate-600 text-slate-200 rounded-lg px-3 py-2 text-sm normal-case tracking-normal font-sans focus:outline-none focus:border-cyan-500"
+                    />
+                </label>
+            </div>
+        )}
+
+        {showPicker && <TranscriptPicker attached={thread.attachments} onToggle={toggleAttachment} onClose={() => setShowPicker(false)} />}
+
+        {thread.attachments.length > 0 && (
+            <div className="px-4 py-2 border-b border-slate-800 flex flex-wrap items-center gap-2">
+                {thread.attachments.map(attachment => (
+                    <span key={attachment.sessionId} className="flex items-center gap-1 text-[10px] font-mono text-cyan-200 bg-cyan-900/30 border border-cyan-500/30 rounded-full pl-2 pr-1 py-0.5">
+                        <DocumentTextIcon className="w-3 h-3" />
+                        {attachment.title}
+                        <button onClick={() => toggleAttachment(attachment)} title="Detach" className="text-cyan-300/60 hover:text-white">
+                            <XMarkIcon className="w-3 h-3" />
+                        </button>
+                    </span>
+                ))}
+            </div>
+        )}
+
         {/* Messages */}
         <div className="flex-1 overflow-y-auto p-4 space-y-4">
+            <div className="flex justify-start">
+                <div className="max-w-[80%] p-3 rounded-lg bg-transparent text-slate-500 font-mono text-xs border border-slate-800">
+                    EBURON Fast Response Unit online. Using Gemini {modelLabel(thread.model)}.
+                    {thread.attachments.length > 0 && ` Answering from ${thread.attachments.length} transcript${thread.attachments.length > 1 ? 's' : ''}.`}
+                </div>
+            </div>
             {messages.map((m) => (
                 <div key={m.id} className={`flex ${m.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                      <div className={`max-w-[80%] p-3 rounded-lg text-sm ${
@@ -87,11 +372,47 @@ export const FastChat: React.FC = () => {
                          ? 'bg-transparent text-slate-500 font-mono text-xs border border-slate-800'
                          : 'bg-slate-800 text-slate-200 border border-slate-700 rounded-tl-none'
                      }`}>
-                         {m.text}
+                         {m.role === 'model' ? <Markdown text={m.text} /> : m.text}
+                         {m.id === streamingId && <span className="inline-block w-1.5 h-3.5 ml-0.5 align-middle bg-cyan-400 animate-pulse"></span>}
+                         {m.citations && m.citations.length > 0 && (
+                             <details className="mt-2 text-xs">
+                                 <summary className="cursor-pointer text-[10px] font-mono font-bold uppercase tracking-wider text-cyan-400/80">
+                                     Sources ({m.citations.length})
+                                 </summary>
+                                 <ul className="mt-2 space-y-2">
+                                     {m.citations.map(citation => (
+                                         <li key={citation.id} className="border-l-2 border-cyan-500/40 pl-2">
+                                             <div className="font-mono text-[10px] text-slate-400">
+                                                 [{citation.id}] {citation.title}{citation.offsetSeconds !== null && ` · ${formatOffset(citation.offsetSeconds)}`}
+                                             </div>
+                                             <div className="text-slate-400 whitespace-pre-wrap">{citation.text}</div>
+                                         </li>
+                                     ))}
+                                 </ul>
+                             </details>
+                         )}
+                         {m.interrupted && (
+                             <div className="mt-1 text-[10px] font-mono font-bold uppercase tracking-wider text-amber-400/80" title="Stopped before the reply was finished">
+                                 Stopped
+                             </div>
+                         )}
                      </div>
                 </div>
             ))}
-            {isThinking && (
+            {failedTurn && (
+                 <div className="flex justify-start">
+                    <div className="max-w-[80%] p-3 rounded-lg text-xs font-mono bg-red-500/10 text-red-300 border border-red-500/20 flex items-center gap-3">
+                        <span>Communication failure: {failedTurn.error}</span>
+                        <button onClick={retry} className="flex items-center gap-1 text-red-200 hover:text-white uppercase font-bold tracking-wider">
+                            <ArrowPathIcon className="w-4 h-4" /> Retry
+                        </button>
+                        <button onClick={() => setFailedTurn(null)} title="Dismiss" className="text-red-300/60 hover:text-white">
+                            <XMarkIcon className="w-4 h-4" />
+                        </button>
+                    </div>
+                 </div>
+            )}
+            {isThinking && !streamingId && (
                  <div className="flex justify-start">
                     <div className="bg-slate-800 p-3 rounded-lg rounded-tl-none border border-slate-700 flex gap-1">
                         <div className="w-2 h-2 bg-cyan-500 rounded-full animate-bounce"></div>
@@ -114,14 +435,25 @@ export const FastChat: React.FC = () => {
                     placeholder="Execute command..."
                     className="flex-1 bg-slate-900 border border-slate-600 text-white rounded-lg px-4 py-2 focus:outline-none focus:border-cyan-500 font-mono text-sm"
                 />
-                <button 
-                    onClick={sendMessage}
-                    className="bg-cyan-600 hover:bg-cyan-500 text-white px-4 py-2 rounded-lg transition-colors"
-                >
-                    <PaperAirplaneIcon className="w-5 h-5" />
-                </button>
+                {isThinking ? (
+                    <button
+                        onClick={() => abortRef.current?.abort()}
+                        title="Stop"
+                        className="bg-red-600 hover:bg-red-500 text-white px-4 py-2 rounded-lg transition-colors"
+                    >
+                        <StopIcon className="w-5 h-5" />
+                    </button>
+                ) : (
+                    <button
+                        onClick={sendMessage}
+                        className="bg-cyan-600 hover:bg-cyan-500 text-white px-4 py-2 rounded-lg transition-colors"
+                    >
+                        <PaperAirplaneIcon className="w-5 h-5" />
+                    </button>
+                )}
             </div>
         </div>
+      </div>
     </div>
   );
 };
\ No newline at end of file
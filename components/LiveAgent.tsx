@@ -1,88 +1,27 @@
 
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { GoogleGenAI, LiveServerMessage } from '@google/genai';
-import { float32ToInt16, base64ToArrayBuffer } from '../utils/audioUtils';
-import { saveTranscript } from '../utils/supabaseClient';
-import { Message } from '../types';
-import { MicrophoneIcon, StopIcon, ComputerDesktopIcon, SparklesIcon, UserGroupIcon, UserIcon, CpuChipIcon, SpeakerWaveIcon, SpeakerXMarkIcon, LanguageIcon } from '@heroicons/react/24/solid';
-
-const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
-
-// Sub-component for rendering messages with potential speaker labels
-const MessageBubble: React.FC<{ msg: Message, showOriginalOnly: boolean }> = ({ msg, showOriginalOnly }) => {
-  const isUser = msg.role === 'user';
-  const isSystem = msg.role === 'system';
-  
-  // If showOriginalOnly is true, we might want to hide Model Translation messages if we can identify them.
-  // For now, translation mode makes the model reply with translation. 
-  // If we want to view "Original" only, we show User messages.
-  // If we want "Both", we show User and Model.
-  // But usually "Original" implies just the transcript. "Translated" implies the model's output.
-  
-  // Advanced parsing for speaker labels
-  const parseSpeakerText = (text: string) => {
-    // Regex to catch [Speaker 1], Speaker 1:, Speaker A:, etc.
-    const speakerRegex = /^(\[?(?:Speaker|Voice)\s?\d+[\]:]?|[A-Za-z]+:)/i;
-    
-    // If the whole text starts with a speaker label, we treat it as one block
-    // Otherwise we split by newlines to find interleaved speakers
-    const lines = text.split('\n');
-    
-    return lines.map((line, i) => {
-      const match = line.match(speakerRegex);
-      if (match) {
-        const speakerName = match[1].replace(/[:\[\]]/g, '').trim();
-        const content = line.replace(match[0], '').trim();
-        return (
-          <div key={i} className="flex flex-col mb-2 last:mb-0">
-             <span className="text-[10px] font-bold opacity-80 uppercase tracking-wider mb-0.5 flex items-center gap-1.5 text-cyan-200">
-                <div className="w-4 h-4 rounded-full bg-cyan-500/20 flex items-center justify-center border border-cyan-500/30">
-                    <UserIcon className="w-2.5 h-2.5" />
-                </div>
-                {speakerName}
-             </span>
-             <span className="pl-1">{content}</span>
-          </div>
-        );
-      }
-      return <div key={i} className={i > 0 ? "mt-1" : ""}>{line}</div>;
-    });
-  };
+import React, { useEffect, useRef, useState, useCallback, useSyncExternalStore } from 'react';
+import { LiveServerMessage } from '@google/genai';
+import { arrayBufferToBase64, base64ToArrayBuffer } from '../utils/audioUtils';
+import { createPcmCapture, PcmCapture, PcmFrame, PCM_MIME_TYPE, frameDurationMs } from '../utils/pcmCapture';
+import { createAudioCapture, createSyntheticAudioCapture, AudioCapture, getCaptureSettings, subscribeCaptureSettings } from '../utils/audioCapture';
+import { createVadGate } from '../utils/voiceActivity';
+import { describeGap, LiveConnection, LinkState } from '../utils/liveConnection';
+import { isDemoMode, getLiveProvider } from '../utils/providers';
+import { SpeechIndicator } from './SpeechIndicator';
+import { saveTranscript, startSession, endSession, updateSessionMetadata, SessionHandle } from '../utils/transcripts';
+import { SpeakerNames, collectSpeakers } from '../utils/speakers';
+import { MeetingSummary, Message } from '../types';
+import { MessageBubble } from './MessageBubble';
+import { BilingualLayout } from './TranslationPair';
+import { AUTO_DETECT, LANGUAGES } from '../utils/languages';
+import { createTurnAssembler, TranscriptEvent } from '../utils/turnAssembly';
+import { ExportMenu } from './ExportMenu';
+import { AudioInputControls } from './AudioInputControls';
+import { SpeakerLegend } from './SpeakerLegend';
+import { MeetingSummaryPanel } from './MeetingSummaryPanel';
+import { cuesFromMessages } from '../utils/transcriptExport';
+import { MicrophoneIcon, StopIcon, ComputerDesktopIcon, SparklesIcon, UserGroupIcon, SpeakerWaveIcon, SpeakerXMarkIcon, LanguageIcon, AdjustmentsHorizontalIcon, ForwardIcon, ArrowPathIcon, ArrowRightIcon } from '@heroicons/react/24/solid';
 
-  if (isSystem) {
-    return (
-        <div className="flex justify-center my-2 animate-fade-in">
-            <div className="bg-slate-800/80 backdrop-blur text-cyan-400 text-xs font-mono border border-slate-700 rounded-full px-4 py-1 shadow-sm flex items-center gap-2">
-                <CpuChipIcon className="w-3 h-3" />
-                {msg.text}
-            </div>
-        </div>
-    );
-  }
-
-  return (
-    <div className={`flex ${isUser ? 'justify-end' : 'justify-start'} mb-4 animate-fade-in-up`}>
-       <div className={`max-w-[85%] rounded-2xl px-5 py-3 shadow-lg backdrop-blur-sm relative overflow-hidden ${
-          isUser 
-            ? 'bg-gradient-to-br from-cyan-600/90 to-cyan-800/90 text-white rounded-tr-sm border border-cyan-500/30' 
-            : 'bg-slate-800/90 text-slate-100 border border-slate-700/50 rounded-tl-sm'
-       }`}>
-          {/* Decorative noise texture */}
-          <div className="absolute inset-0 opacity-[0.03] bg-[url('data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHdpZHRoPSI0IiBoZWlnaHQ9IjQiPgo8cmVjdCB3aWR0aD0iNCIgaGVpZ2h0PSI0IiBmaWxsPSIjZmZmIi8+CjxyZWN0IHdpZHRoPSIxIiBoZWlnaHQ9IjEiIGZpbGw9IiMwMDAiLz4KPC9zdmc+')]"></div>
-          
-          <div className="relative z-10 text-sm leading-relaxed">
-             {parseSpeakerText(msg.text)}
-          </div>
-          
-          <div className="relative z-10 mt-1 flex justify-end">
-             <span className="text-[10px] opacity-40 font-mono">
-                {msg.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
-             </span>
-          </div>
-       </div>
-    </div>
-  );
-};
 
 export const LiveAgent: React.FC = () => {
   const [isActive, setIsActive] = useState(false);
@@ -93,24 +32,33 @@ export const LiveAgent: React.FC = () => {
   const [useSystemAudio, setUseSystemAudio] = useState(false);
   const [diarizationEnabled, setDiarizationEnabled] = useState(true);
   const [translationEnabled, setTranslationEnabled] = useState(false);
-  const [showOriginalOnly, setShowOriginalOnly] = useState(false);
+  const [sourceLanguage, setSourceLanguage] = useState(AUTO_DETECT);
+  const [targetLanguage, setTargetLanguage] = useState('English');
+  const [bilingualLayout, setBilingualLayout] = useState<BilingualLayout>('side-by-side');
   const [agentVolume, setAgentVolume] = useState(1.0);
+  const [showInputSettings, setShowInputSettings] = useState(false);
+  const [isSpeech, setIsSpeech] = useState(false);
+  const captureSettings = useSyncExternalStore(subscribeCaptureSettings, getCaptureSettings);
+  const [explicitTurns, setExplicitTurns] = useState(false);
+  const [linkState, setLinkState] = useState<LinkState>('closed');
+  const [speakerNames, setSpeakerNames] = useState<SpeakerNames>({});
+  // Minutes of the last finished session
+  const [summary, setSummary] = useState<MeetingSummary | null>(null);
 
   // Refs for audio processing
   const audioContextRef = useRef<AudioContext | null>(null);
   const inputContextRef = useRef<AudioContext | null>(null);
-  const mediaStreamsRef = useRef<MediaStream[]>([]);
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
-  const sessionRef = useRef<Promise<any> | null>(null);
+  const captureRef = useRef<AudioCapture | null>(null);
+  const processorRef = useRef<PcmCapture | null>(null);
+  const connectionRef = useRef<LiveConnection | null>(null);
   const nextStartTimeRef = useRef<number>(0);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
   const transcriptContainerRef = useRef<HTMLDivElement>(null);
   const outputGainRef = useRef<GainNode | null>(null);
-  const turnLanguageDetectedRef = useRef(false);
-
-  // Refs for current transcript accumulation
-  const currentInputTransRef = useRef('');
-  const currentOutputTransRef = useRef('');
+  const transcriptSessionRef = useRef<SessionHandle | null>(null);
+  // Kept after disconnecting so speakers renamed afterwards still reach the saved session
+  const lastSessionRef = useRef<SessionHandle | null>(null);
+  const connectedAtRef = useRef<Date | null>(null);
 
   useEffect(() => {
     setTranscripts([{
@@ -129,16 +77,25 @@ export const LiveAgent: React.FC = () => {
     }
   }, [transcripts, streamingInput]);
 
+  // Stops and flushes every queued agent audio chunk and resets the playback clock
+  const stopPlayback = () => {
+    sourcesRef.current.forEach(source => {
+        try { source.stop(); } catch(e) {}
+    });
+    sourcesRef.current.clear();
+    nextStartTimeRef.current = 0;
+  };
+
   const cleanupAudio = useCallback(() => {
     // Stop all media streams
-    mediaStreamsRef.current.forEach(stream => {
-        stream.getTracks().forEach(track => track.stop());
-    });
-    mediaStreamsRef.current = [];
+    if (captureRef.current) {
+      captureRef.current.stop();
+      captureRef.current = null;
+    }
 
-    // Disconnect processor
+    // Stop capture worklet
     if (processorRef.current) {
-      processorRef.current.disconnect();
+      processorRef.current.stop();
       processorRef.current = null;
     }
 
@@ -154,24 +111,24 @@ export const LiveAgent: React.FC = () => {
     outputGainRef.current = null;
 
     // Close Session
-    if (sessionRef.current) {
-      sessionRef.current.then((session: any) => {
-          try { session.close(); } catch(e) { console.error("Session close error", e)}
-      });
-      sessionRef.current = null;
+    if (connectionRef.current) {
+      connectionRef.current.close();
+      connectionRef.current = null;
     }
+    setLinkState('closed');
     
-    // Stop playing audio
-    sourcesRef.current.forEach(source => {
-        try { source.stop(); } catch(e) {}
-    });
-    sourcesRef.current.clear();
+    stopPlayback();
 
     setIsActive(false);
-    nextStartTimeRef.current = 0;
     setVolume(0);
+    setIsSpeech(false);
     setStreamingInput('');
-    turnLanguageDetectedRef.current = false;
+
+    // Close the persisted session record
+    if (transcriptSessionRef.current) {
+      endSession(transcriptSessionRef.current);
+      transcriptSessionRef.current = null;
+    }
   }, []);
 
   const handleVolumeChange = (newVol: number) => {
@@ -183,12 +140,18 @@ export const LiveAgent: React.FC = () => {
 
   const connect = async () => {
     setError(null);
+    setSummary(null);
+    connectedAtRef.current = new Date();
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+      const provider = getLiveProvider();
+      if (!provider.connect) {
+        throw new Error(`The ${provider.kind} speech provider only transcribes. Live conversations need Gemini; use the Transcriber instead.`);
+      }
       
       // 1. Initialize Audio Contexts
       const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-      const inCtx = new AudioContextClass({ sampleRate: 16000 });
+      // Runs at the hardware rate; the capture worklet resamples to 16 kHz itself
+      const inCtx = new AudioContextClass();
       const outCtx = new AudioContextClass({ sampleRate: 24000 });
       inputContextRef.current = inCtx;
       audioContextRef.current = outCtx;
@@ -199,54 +162,27 @@ export const LiveAgent: React.FC = () => {
       gainNode.connect(outCtx.destination);
       outputGainRef.current = gainNode;
 
-      // 2. Setup Mixer
-      const mixer = inCtx.createGain();
-
-      // 3. Acquire Microphone (Mandatory)
-      const micStream = await navigator.mediaDevices.getUserMedia({ 
-          audio: {
-              echoCancellation: true,
-              noiseSuppression: true,
-              sampleRate: 16000,
-              channelCount: 1
-          } 
-      });
-      mediaStreamsRef.current.push(micStream);
-      const micSource = inCtx.createMediaStreamSource(micStream);
-      micSource.connect(mixer);
-
-      // 4. Acquire System Audio (Optional)
-      if (useSystemAudio) {
-          try {
-              const sysStream = await navigator.mediaDevices.getDisplayMedia({ 
-                  video: true,
-                  audio: {
-                      echoCancellation: false,
-                      autoGainControl: false,
-                      noiseSuppression: false,
-                      channelCount: 1
-                  } 
-              });
-              mediaStreamsRef.current.push(sysStream);
-              
-              if (sysStream.getAudioTracks().length > 0) {
-                  const sysSource = inCtx.createMediaStreamSource(sysStream);
-                  sysSource.connect(mixer);
-              } else {
-                  console.warn("User did not share system audio.");
-              }
-          } catch (e) {
-              console.warn("System audio selection cancelled or failed", e);
-          }
+      // 2. Acquire Microphone (Mandatory) and System Audio (Optional) into one mixer
+      const capture = isDemoMode() ? createSyntheticAudioCapture(inCtx, { useSystemAudio }) : await createAudioCapture(inCtx, { useSystemAudio });
+      captureRef.current = capture;
+      if (capture.systemAudio === 'no-audio') {
+          console.warn("User did not share system audio.");
       }
+      capture.ondevicechange = (label) => {
+          setTranscripts(prev => [...prev, {
+              id: crypto.randomUUID(),
+              role: 'system',
+              text: `Input switched to ${label}`,
+              timestamp: new Date()
+          }]);
+      };
 
-      // 5. Connect Mixer to Processor
-      const processor = inCtx.createScriptProcessor(4096, 1, 1);
+      // 3. Connect Mixer to Capture Worklet
+      const processor = await createPcmCapture(inCtx);
       processorRef.current = processor;
-      mixer.connect(processor);
-      processor.connect(inCtx.destination); 
+      capture.output.connect(processor.node);
 
-      // 6. Start Gemini Session
+      // 4. Start Gemini Session
       
       const baseInstruction = `
       You are EBURON.
@@ -262,9 +198,10 @@ export const LiveAgent: React.FC = () => {
       if (translationEnabled) {
           systemInstruction = `${baseInstruction}
           MODE: REAL-TIME TRANSLATOR.
-          1. Translate the input audio into English (or the most logical target language).
-          2. Output ONLY the translation text after the [LANG:...] tag.
-          3. Do not converse.
+          1. ${sourceLanguage === AUTO_DETECT ? 'The speaker may use any language.' : `The speaker talks in ${sourceLanguage}.`} The [LANG:...] tag names the language that was spoken.
+          2. Translate everything they say into ${targetLanguage}.
+          3. Output ONLY the ${targetLanguage} translation text after the [LANG:...] tag.
+          4. Do not converse.
           `;
       } else if (diarizationEnabled) {
          systemInstruction = `${baseInstruction}
@@ -280,163 +217,186 @@ export const LiveAgent: React.FC = () => {
           `;
       }
 
+      // Explicit turn signals need the VAD gate to know when speech starts and stops
+      const useExplicitTurns = explicitTurns && getCaptureSettings().vadEnabled;
+      const vad = createVadGate({
+          sensitivity: getCaptureSettings().vadSensitivity,
+          frameDurationMs: frameDurationMs()
+      });
+
       const config = {
-        model: LIVE_MODEL,
-        config: {
-          responseModalities: ['AUDIO' as any], 
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } },
-          },
-          systemInstruction: systemInstruction,
-          inputAudioTranscription: {},
-          outputAudioTranscription: {},
+        responseModalities: ['AUDIO' as any], 
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } },
         },
+        systemInstruction: systemInstruction,
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        ...(useExplicitTurns && {
+          realtimeInputConfig: { automaticActivityDetection: { disabled: true } }
+        }),
       };
 
-      const sessionPromise = ai.live.connect({
-        ...config,
-        callbacks: {
-          onopen: () => {
-            console.log("EBURON Link Established");
-            setIsActive(true);
-            setTranscripts(prev => [...prev, {
-                id: 'sys-start',
-                role: 'system',
-                text: translationEnabled ? 'Translator Mode Active.' : (diarizationEnabled ? 'Secure Link Established. Speaker ID Active.' : 'Secure Link Established.'),
-                timestamp: new Date()
-            }]);
-
-            processor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              
-              // Volume Meter
-              let sum = 0;
-              for(let i=0; i<inputData.length; i++) sum += inputData[i] * inputData[i];
-              const rms = Math.sqrt(sum / inputData.length);
-              setVolume(rms);
-
-              // PCM Conversion
-              const pcm16 = float32ToInt16(inputData);
-              const uint8 = new Uint8Array(pcm16.buffer);
-              
-              let binary = '';
-              const len = uint8.byteLength;
-              for (let i = 0; i < len; i++) {
-                binary += String.fromCharCode(uint8[i]);
-              }
-              const base64 = btoa(binary);
-
-              sessionPromise.then(session => {
-                session.sendRealtimeInput({
-                  media: {
-                    mimeType: 'audio/pcm;rate=16000',
-                    data: base64
-                  }
-                });
-              });
-            };
-          },
-          onmessage: async (msg: LiveServerMessage) => {
-             // Handle Audio Output
-             const audioData = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-             if (audioData && outCtx) {
-                const bufferData = base64ToArrayBuffer(audioData);
-                const int16Array = new Int16Array(bufferData);
-                const float32Data = new Float32Array(int16Array.length);
-                for (let i = 0; i < int16Array.length; i++) {
-                    float32Data[i] = int16Array[i] / 32768.0;
-                }
-
-                const audioBuffer = outCtx.createBuffer(1, float32Data.length, 24000);
-                audioBuffer.getChannelData(0).set(float32Data);
-
-                const source = outCtx.createBufferSource();
-                source.buffer = audioBuffer;
-                
-                // Connect through Gain Node for volume control
-                if (outputGainRef.current) {
-                    source.connect(outputGainRef.current);
-                } else {
-                    source.connect(outCtx.destination);
-                }
-                
-                const now = outCtx.currentTime;
-                const startTime = Math.max(now, nextStartTimeRef.current);
-                source.start(startTime);
-                nextStartTimeRef.current = startTime + audioBuffer.duration;
-                
-                sourcesRef.current.add(source);
-                source.onended = () => sourcesRef.current.delete(source);
-             }
-
-             // Handle Transcription
-             if (msg.serverContent?.outputTranscription) {
-               const text = msg.serverContent.outputTranscription.text;
-               currentOutputTransRef.current += text;
-
-               // Parse Language Tag
-               const langMatch = currentOutputTransRef.current.match(/^\[LANG:(.*?)\]/);
-               if (langMatch && !turnLanguageDetectedRef.current) {
-                   const detectedLang = langMatch[1];
-                   setTranscripts(prev => [...prev, {
-                       id: Date.now() + 'sys-lang',
-                       role: 'system',
-                       text: `Language Detected: ${detectedLang}`,
-                       timestamp: new Date()
-                   }]);
-                   turnLanguageDetectedRef.current = true;
-               }
-             }
-
-             if (msg.serverContent?.inputTranscription) {
-               const text = msg.serverContent.inputTranscription.text;
-               currentInputTransRef.current += text;
-               setStreamingInput(currentInputTransRef.current); // Update streaming UI
-             }
-
-             if (msg.serverContent?.turnComplete) {
-                if (currentInputTransRef.current.trim()) {
-                  const text = currentInputTransRef.current;
-                  setTranscripts(prev => [...prev, {
-                    id: Date.now().toString() + 'u',
-                    role: 'user',
-                    text: text,
-                    timestamp: new Date()
-                  }]);
-                  saveTranscript(text, 'user', 'live');
-                  currentInputTransRef.current = '';
-                  setStreamingInput(''); // Clear streaming UI as it's now permanent
-                }
-                if (currentOutputTransRef.current.trim()) {
-                  let text = currentOutputTransRef.current;
-                  
-                  // Strip language tag from final output
-                  text = text.replace(/^\[LANG:.*?\]\s*/, '');
-
-                  setTranscripts(prev => [...prev, {
-                    id: Date.now().toString() + 'm',
-                    role: 'model',
-                    text: text,
-                    timestamp: new Date()
-                  }]);
-                  saveTranscript(text, 'model', 'live');
-                  currentOutputTransRef.current = '';
-                  turnLanguageDetectedRef.current = false;
-                }
-             }
-          },
-          onclose: () => {
-            console.log("EBURON Link Closed");
-            cleanupAudio();
-          },
-          onerror: (err) => {
-            console.error("EBURON Link Error", err);
-            setError("Connection interrupted. " + (err.message || "Unknown error"));
-            cleanupAudio();
+      const connection = provider.connect(config);
+      connectionRef.current = connection;
+
+      // Partial and finished turns are worked out from the server messages by the
+      // assembler; this only shows and saves what it reports
+      const assembler = createTurnAssembler({
+        mode: translationEnabled ? 'translation' : 'conversation',
+        idPrefix: crypto.randomUUID(),
+        sourceLanguage: translationEnabled && sourceLanguage !== AUTO_DETECT ? sourceLanguage : null,
+        targetLanguage: translationEnabled ? targetLanguage : null
+      });
+
+      const handleTranscript = (events: TranscriptEvent[]) => events.forEach(event => {
+        if (event.type === 'partial' && event.role === 'user') setStreamingInput(event.text);
+        if (event.type !== 'final') return;
+
+        const { turn } = event;
+        if (turn.role === 'user') setStreamingInput(''); // Now permanent
+        setTranscripts(prev => [...prev, {
+          id: turn.id,
+          role: turn.role,
+          text: turn.text,
+          timestamp: turn.endedAt,
+          ...(turn.speakers && { speakers: turn.speakers }),
+          ...(turn.translation && { translation: turn.translation }),
+          ...(turn.language && { language: turn.language }),
+          ...(turn.interrupted && { interrupted: true })
+        }]);
+        saveTranscript(turn.text, turn.role, 'live', transcriptSessionRef.current ?? undefined, {
+          translation: turn.translation ?? undefined,
+          language: turn.language
+        });
+      });
+
+      // Frames arrive already converted to PCM16 by the worklet. The connection
+      // buffers them while it is (re)connecting, so nothing said meanwhile is lost.
+      const sendFrame = ({ pcm }: PcmFrame) => {
+        connection.send({
+          media: {
+            mimeType: PCM_MIME_TYPE,
+            data: arrayBufferToBase64(pcm)
           }
+        });
+      };
+
+      processor.onframe = (frame) => {
+        // Volume Meter
+        setVolume(frame.rms);
+
+        const { vadEnabled, vadSensitivity } = getCaptureSettings();
+        if (!vadEnabled && !useExplicitTurns) {
+          sendFrame(frame);
+          return;
+        }
+
+        // Only stream speech (plus pre-roll and hangover)
+        vad.setSensitivity(vadSensitivity);
+        const result = vad.process(frame);
+        setIsSpeech(result.isSpeech);
+
+        if (result.event === 'speech-start' && useExplicitTurns) {
+          connection.send({ activityStart: {} });
+        }
+        result.frames.forEach(sendFrame);
+        if (result.event === 'speech-end') {
+          // Without audio in between, the server needs to be told the stream paused
+          connection.send(useExplicitTurns ? { activityEnd: {} } : { audioStreamEnd: true });
         }
+      };
+
+      connection.onopen = () => {
+        console.log("EBURON Link Established");
+        setIsActive(true);
+        setTranscripts(prev => [...prev, {
+            id: 'sys-start',
+            role: 'system',
+            text: translationEnabled ? `Translator Mode Active: ${sourceLanguage === AUTO_DETECT ? 'Auto-detect' : sourceLanguage} → ${targetLanguage}.` : (diarizationEnabled ? 'Secure Link Established. Speaker ID Active.' : 'Secure Link Established.'),
+            timestamp: new Date()
+        }]);
+      };
+
+      connection.onstatechange = (state) => {
+        setLinkState(state);
+        if (state === 'reconnecting') {
+          console.warn("EBURON Link Lost, reconnecting");
+          // The interrupted turn won't get its turnComplete
+          handleTranscript(assembler.dispatch({ type: 'flush', at: new Date() }));
+        }
+      };
+
+      // Mark the outage in the transcript instead of silently skipping it
+      connection.ongap = (gap) => {
+        const text = describeGap(gap);
+        setTranscripts(prev => [...prev, {
+            id: crypto.randomUUID(),
+            role: 'system',
+            text,
+            timestamp: new Date()
+        }]);
+        saveTranscript(text, 'system', 'live', transcriptSessionRef.current ?? undefined);
+      };
+
+      connection.onmessage = (msg: LiveServerMessage) => {
+         // Where audio arriving now starts playing; taken before this message's own audio is queued
+         const playhead = Math.max(outCtx.currentTime, nextStartTimeRef.current);
+
+         // Handle Audio Output
+         const audioData = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+         if (audioData && outCtx) {
+            const bufferData = base64ToArrayBuffer(audioData);
+            const int16Array = new Int16Array(bufferData);
+            const float32Data = new Float32Array(int16Array.length);
+            for (let i = 0; i < int16Array.length; i++) {
+                float32Data[i] = int16Array[i] / 32768.0;
+            }
+
+            const audioBuffer = outCtx.createBuffer(1, float32Data.length, 24000);
+            audioBuffer.getChannelData(0).set(float32Data);
+
+            const source = outCtx.createBufferSource();
+            source.buffer = audioBuffer;
+            
+            // Connect through Gain Node for volume control
+            if (outputGainRef.current) {
+                source.connect(outputGainRef.current);
+            } else {
+                source.connect(outCtx.destination);
+            }
+            
+            const now = outCtx.currentTime;
+            const startTime = Math.max(now, nextStartTimeRef.current);
+            source.start(startTime);
+            nextStartTimeRef.current = startTime + audioBuffer.duration;
+            
+            sourcesRef.current.add(source);
+            source.onended = () => sourcesRef.current.delete(source);
+         }
+
+         // Barge-in: the user spoke over the agent
+         if (msg.serverContent?.interrupted) stopPlayback();
+
+         handleTranscript(assembler.receive(msg, new Date(), { playAt: playhead, heardUntil: outCtx.currentTime }));
+      };
+
+      // Only called once reconnecting has been given up on
+      connection.onclose = (reason) => {
+        console.error("EBURON Link Closed", reason);
+        setError("Connection lost. " + reason);
+        cleanupAudio();
+      };
+      transcriptSessionRef.current = startSession('live', {
+        provider: provider.kind,
+        model: provider.model,
+        systemAudio: useSystemAudio,
+        diarization: diarizationEnabled,
+        translation: translationEnabled,
+        ...(translationEnabled && { sourceLanguage, targetLanguage }),
+        ...(Object.keys(speakerNames).length > 0 && { speakerNames })
       });
-      sessionRef.current = sessionPromise;
+      lastSessionRef.current = transcriptSessionRef.current;
 
     } catch (e: any) {
       console.error(e);
@@ -445,11 +405,47 @@ export const LiveAgent: React.FC = () => {
     }
   };
 
-  const visibleTranscripts = transcripts.filter(msg => {
-      if (!showOriginalOnly) return true;
-      // If showing only original, we only show User messages (input)
-      return msg.role === 'user' || msg.role === 'system';
-  });
+  const renameSpeaker = (speakerId: string, name: string) => {
+      const next = { ...speakerNames };
+      if (name) next[speakerId] = name;
+      else delete next[speakerId];
+      setSpeakerNames(next);
+
+      const session = lastSessionRef.current;
+      if (session) {
+          session.metadata = { ...session.metadata, speakerNames: next };
+          updateSessionMetadata(session.id, session.metadata);
+      }
+  };
+
+  const buildExport = () => {
+      const startedAt = connectedAtRef.current ?? transcripts[0]?.timestamp ?? new Date();
+      return {
+          title: translationEnabled ? 'EBURON Live Translation' : 'EBURON Live Session',
+          startedAt,
+          ...(translationEnabled && {
+              language: `${sourceLanguage === AUTO_DETECT ? 'Auto-detected' : sourceLanguage} → ${targetLanguage}`
+          }),
+          cues: cuesFromMessages(transcripts, startedAt, undefined, speakerNames)
+      };
+  };
+
+  // Earlier connections' turns stay on screen but belong to their own sessions
+  const lastSessionTurns = transcripts.filter(msg => msg.role !== 'system' && connectedAtRef.current !== null && msg.timestamp >= connectedAtRef.current);
+
+  const buildSessionExport = () => {
+      const startedAt = connectedAtRef.current ?? new Date();
+      return { ...buildExport(), startedAt, cues: cuesFromMessages(lastSessionTurns, startedAt, undefined, speakerNames) };
+  };
+
+  const saveSummary = (next: MeetingSummary) => {
+      setSummary(next);
+      const session = lastSessionRef.current;
+      if (session) {
+          session.metadata = { ...session.metadata, summary: next };
+          updateSessionMetadata(session.id, session.metadata);
+      }
+  };
 
   return (
     <div className="flex flex-col h-full bg-slate-900 relative overflow-hidden">
@@ -464,10 +460,22 @@ export const LiveAgent: React.FC = () => {
           )}
       </div>
 
+      {/* Export */}
+      {transcripts.some(msg => msg.role !== 'system') && (
+          <div className="absolute top-3 right-3 z-30">
+              <ExportMenu getTranscript={buildExport} />
+          </div>
+      )}
+
+      {/* Speakers (click to rename) */}
+      <div className="absolute top-3 left-3 right-28 z-30">
+          <SpeakerLegend speakers={collectSpeakers(transcripts)} names={speakerNames} onRename={renameSpeaker} />
+      </div>
+
       {/* Transcript Area */}
       <div ref={transcriptContainerRef} className="flex-1 overflow-y-auto p-4 pb-48 z-10 scroll-smooth">
-        {visibleTranscripts.map((msg) => (
-            <MessageBubble key={msg.id} msg={msg} showOriginalOnly={showOriginalOnly} />
+        {transcripts.map((msg) => (
+            <MessageBubble key={msg.id} msg={msg} speakerNames={speakerNames} bilingualLayout={bilingualLayout} />
         ))}
         
         {/* Real-time Streaming Input Bubble */}
@@ -480,6 +488,12 @@ export const LiveAgent: React.FC = () => {
             </div>
         )}
 
+        {!isActive && lastSessionRef.current && lastSessionTurns.length > 0 && (
+            <div className="my-4">
+                <MeetingSummaryPanel summary={summary} getTranscript={buildSessionExport} onSave={saveSummary} />
+            </div>
+        )}
+
         {error && (
             <div className="flex justify-center p-4">
                 <div className="bg-red-500/10 text-red-200 text-xs px-4 py-2 rounded-full border border-red-500/20 backdrop-blur flex items-center gap-2">
@@ -535,6 +549,44 @@ export const LiveAgent: React.FC = () => {
                         <span>Translator Mode</span>
                         {translationEnabled && <span className="w-1.5 h-1.5 bg-emerald-400 rounded-full ml-1"></span>}
                     </button>
+
+                    <button 
+                        onClick={() => setExplicitTurns(!explicitTurns)}
+                        title="Close turns as soon as local speech detection hears you stop"
+                        className={`flex items-center gap-2 px-4 py-2 rounded-full text-xs font-bold uppercase tracking-wide transition-all ${
+                            explicitTurns 
+                            ? 'bg-amber-900/50 text-amber-300 border border-amber-500/50 shadow-lg shadow-amber-900/30' 
+                            : 'bg-slate-800 text-slate-400 border border-slate-700'
+                        }`}
+                    >
+                        <ForwardIcon className="w-4 h-4" />
+                        <span>Fast Turns</span>
+                        {explicitTurns && <span className="w-1.5 h-1.5 bg-amber-400 rounded-full ml-1"></span>}
+                    </button>
+
+                    {/* Translation languages */}
+                    {translationEnabled && (
+                        <div className="w-full flex items-center justify-center gap-2">
+                            <select
+                                value={sourceLanguage}
+                                onChange={(e) => setSourceLanguage(e.target.value)}
+                                title="Spoken language"
+                                className="bg-slate-800 border border-slate-700 text-slate-300 text-xs font-mono rounded-lg px-3 py-2 focus:outline-none focus:border-emerald-500"
+                            >
+                                <option value={AUTO_DETECT}>Auto-detect</option>
+                                {LANGUAGES.map(language => <option key={language} value={language}>{language}</option>)}
+                            </select>
+                            <ArrowRightIcon className="w-4 h-4 text-emerald-500" />
+                            <select
+                                value={targetLanguage}
+                                onChange={(e) => setTargetLanguage(e.target.value)}
+                                title="Translate into"
+                                className="bg-slate-800 border border-slate-700 text-slate-300 text-xs font-mono rounded-lg px-3 py-2 focus:outline-none focus:border-emerald-500"
+                            >
+                                {LANGUAGES.map(language => <option key={language} value={language}>{language}</option>)}
+                            </select>
+                        </div>
+                    )}
                 </div>
             ) : (
                 <div className="w-full flex flex-col gap-4 animate-fade-in-up">
@@ -542,10 +594,10 @@ export const LiveAgent: React.FC = () => {
                      {translationEnabled && (
                          <div className="flex justify-center">
                              <button 
-                                onClick={() => setShowOriginalOnly(!showOriginalOnly)}
+                                onClick={() => setBilingualLayout(bilingualLayout === 'side-by-side' ? 'interleaved' : 'side-by-side')}
                                 className="text-xs text-emerald-400 font-mono bg-emerald-900/20 px-3 py-1 rounded-full border border-emerald-500/20 hover:bg-emerald-900/40"
                              >
-                                {showOriginalOnly ? 'View: Original Only' : 'View: Original + Translated'}
+                                {bilingualLayout === 'side-by-side' ? 'View: Side by Side' : 'View: Interleaved'}
                              </button>
                          </div>
                      )}
@@ -575,6 +627,18 @@ export const LiveAgent: React.FC = () => {
                  </div>
             )}
 
+            {/* Input Device & Gain Settings */}
+            <div className="w-full max-w-xs mx-auto flex flex-col items-center gap-3">
+                <button
+                    onClick={() => setShowInputSettings(!showInputSettings)}
+                    className={`flex items-center gap-1.5 text-[10px] font-mono uppercase tracking-widest transition-colors ${showInputSettings ? 'text-cyan-400' : 'text-slate-500 hover:text-slate-300'}`}
+                >
+                    <AdjustmentsHorizontalIcon className="w-3.5 h-3.5" />
+                    Inputs
+                </button>
+                {showInputSettings && <AudioInputControls showSystemGain={useSystemAudio} />}
+            </div>
+
             {/* Main Action Button */}
             <div className="relative">
                  {isActive && (
@@ -601,10 +665,17 @@ export const LiveAgent: React.FC = () => {
             <div className="h-6 w-full text-center">
                 {isActive ? (
                      <div className="flex flex-col items-center">
-                        <div className="flex items-center gap-2 text-cyan-400 text-xs font-mono tracking-[0.2em] font-bold">
-                            <SparklesIcon className="w-3 h-3 animate-spin-slow" />
-                            <span>CONNECTED</span>
-                        </div>
+                        {linkState === 'reconnecting' ? (
+                            <div className="flex items-center gap-2 text-amber-400 text-xs font-mono tracking-[0.2em] font-bold">
+                                <ArrowPathIcon className="w-3 h-3 animate-spin" />
+                                <span>RECONNECTING</span>
+                            </div>
+                        ) : (
+                            <div className="flex items-center gap-2 text-cyan-400 text-xs font-mono tracking-[0.2em] font-bold">
+                                <SparklesIcon className="w-3 h-3 animate-spin-slow" />
+                                <span>CONNECTED</span>
+                            </div>
+                        )}
                         <div className="flex gap-2 mt-1">
                             {diarizationEnabled && (
                                 <span className="text-[10px] text-purple-400/70 font-mono">
@@ -616,6 +687,7 @@ export const LiveAgent: React.FC = () => {
                                     TRANSLATOR
                                 </span>
                             )}
+                            {captureSettings.vadEnabled && <SpeechIndicator isSpeech={isSpeech} />}
                         </div>
                     </div>
                 ) : (
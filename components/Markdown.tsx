@@ -0,0 +1,125 @@
+import React, { useMemo, useState } from 'react';
+import { Block, Inline, TableAlign, parseMarkdown } from '../utils/markdown';
+import { TokenKind, highlight } from '../utils/syntaxHighlight';
+import { ClipboardDocumentIcon, CheckIcon } from '@heroicons/react/24/outline';
+
+const TOKEN_STYLES: Record<TokenKind, string> = {
+  plain: '',
+  comment: 'text-slate-500 italic',
+  string: 'text-emerald-300',
+  number: 'text-amber-300',
+  keyword: 'text-violet-300'
+};
+
+const ALIGN_STYLES: Record<Exclude<TableAlign, null>, string> = {
+  left: 'text-left',
+  center: 'text-center',
+  right: 'text-right'
+};
+
+const CodeBlock: React.FC<{ language: string | null, code: string }> = ({ language, code }) => {
+  const [copied, setCopied] = useState(false);
+  const tokens = useMemo(() => highlight(code, language), [code, language]);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      console.warn('Could not copy code', e);
+    }
+  };
+
+  return (
+    <div className="my-2 rounded-lg border border-slate-700 bg-slate-950/80 overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-1 border-b border-slate-800 text-[10px] font-mono uppercase tracking-wider text-slate-500">
+        <span>{language || 'code'}</span>
+        <button onClick={copy} title="Copy code" className="flex items-center gap-1 hover:text-white transition-colors">
+          {copied ? <CheckIcon className="w-3 h-3 text-emerald-400" /> : <ClipboardDocumentIcon className="w-3 h-3" />}
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      <pre className="p-3 overflow-x-auto text-xs leading-relaxed font-mono text-slate-200">
+        <code>
+          {tokens.map((token, i) => (
+            token.kind === 'plain' ? token.text : <span key={i} className={TOKEN_STYLES[token.kind]}>{token.text}</span>
+          ))}
+        </code>
+      </pre>
+    </div>
+  );
+};
+
+const renderInline = (nodes: Inline[]): React.ReactNode[] => nodes.map((node, i) => {
+  switch (node.type) {
+    case 'text': return <React.Fragment key={i}>{node.text}</React.Fragment>;
+    case 'break': return <br key={i} />;
+    case 'strong': return <strong key={i} className="font-bold">{renderInline(node.children)}</strong>;
+    case 'em': return <em key={i}>{renderInline(node.children)}</em>;
+    case 'del': return <del key={i} className="opacity-70">{renderInline(node.children)}</del>;
+    case 'code': return <code key={i} className="font-mono text-[0.85em] bg-black/30 border border-white/10 rounded px-1 py-0.5">{node.text}</code>;
+    case 'link':
+      return (
+        <a key={i} href={node.href} target="_blank" rel="noopener noreferrer nofollow" className="text-cyan-300 underline underline-offset-2 hover:text-cyan-200 break-words">
+          {renderInline(node.children)}
+        </a>
+      );
+  }
+});
+
+const HEADING_STYLES = ['text-lg', 'text-base', 'text-sm', 'text-sm', 'text-sm', 'text-sm'];
+
+// `tight` drops paragraph spacing inside list items
+const renderBlocks = (blocks: Block[], tight = false): React.ReactNode[] => blocks.map((block, i) => {
+  switch (block.type) {
+    case 'paragraph':
+      return <p key={i} className={tight ? '' : 'my-1.5 first:mt-0 last:mb-0'}>{renderInline(block.children)}</p>;
+    case 'heading': {
+      const Tag = `h${block.level}` as 'h1';
+      return <Tag key={i} className={`${HEADING_STYLES[block.level - 1]} font-bold mt-3 mb-1 first:mt-0`}>{renderInline(block.children)}</Tag>;
+    }
+    case 'code':
+      return <CodeBlock key={i} language={block.language} code={block.text} />;
+    case 'list': {
+      const items = block.items.map((item, j) => <li key={j} className="pl-1">{renderBlocks(item, true)}</li>);
+      return block.ordered
+        ? <ol key={i} start={block.start} className="list-decimal pl-5 my-1.5 space-y-0.5">{items}</ol>
+        : <ul key={i} className="list-disc pl-5 my-1.5 space-y-0.5">{items}</ul>;
+    }
+    case 'quote':
+      return <blockquote key={i} className="border-l-2 border-slate-500 pl-3 my-1.5 opacity-80">{renderBlocks(block.children)}</blockquote>;
+    case 'table':
+      return (
+        <div key={i} className="my-2 overflow-x-auto">
+          <table className="text-xs border-collapse">
+            <thead>
+              <tr>
+                {block.header.map((cell, c) => (
+                  <th key={c} className={`border border-slate-600 bg-black/20 px-2 py-1 font-bold ${ALIGN_STYLES[block.align[c] ?? 'left']}`}>{renderInline(cell)}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, r) => (
+                <tr key={r}>
+                  {row.map((cell, c) => (
+                    <td key={c} className={`border border-slate-700 px-2 py-1 align-top ${ALIGN_STYLES[block.align[c] ?? 'left']}`}>{renderInline(cell)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case 'rule':
+      return <hr key={i} className="my-3 border-slate-600" />;
+  }
+});
+
+// Model replies as formatted text. Everything is built as React elements, so
+// nothing in the reply is ever interpreted as HTML.
+export const Markdown: React.FC<{ text: string }> = ({ text }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return <div className="break-words">{renderBlocks(blocks)}</div>;
+};
@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { MeetingSummary } from '../types';
+import { downloadSummary, summarizeTranscript, validateSummary } from '../utils/meetingSummary';
+import { ExportableTranscript } from '../utils/transcriptExport';
+import { SparklesIcon, PencilIcon, ArrowPathIcon, ArrowDownTrayIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+
+interface MeetingSummaryPanelProps {
+  summary: MeetingSummary | null;
+  // The transcript to summarize; its title and start time also name the exports
+  getTranscript: () => ExportableTranscript;
+  // Called with every new or edited summary, to be saved with the session
+  onSave: (summary: MeetingSummary) => void;
+}
+
+const FIELD = 'bg-slate-900 border border-slate-600 text-slate-200 rounded-lg px-2 py-1 text-sm focus:outline-none focus:border-cyan-500';
+const SECTION = 'text-[10px] font-mono font-bold uppercase tracking-wider text-slate-500 mb-1';
+
+// A "Summarize" button until there is a summary, then the summary itself with
+// editing, regenerating and export
+export const MeetingSummaryPanel: React.FC<MeetingSummaryPanelProps> = ({ summary, getTranscript, onSave }) => {
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // The summary being edited; null when not editing
+  const [draft, setDraft] = useState<MeetingSummary | null>(null);
+
+  const generate = async () => {
+    if (summary && !window.confirm('Replace the current summary, including any edits?')) return;
+    setIsGenerating(true);
+    setError(null);
+    try {
+      onSave(await summarizeTranscript(getTranscript()));
+    } catch (e: any) {
+      console.error('Summary failed', e);
+      setError(e?.message || 'Could not summarize the transcript.');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const saveDraft = () => {
+    const checked = validateSummary(draft);
+    if (!checked) {
+      setError('The summary paragraph cannot be empty.');
+      return;
+    }
+    setError(null);
+    setDraft(null);
+    onSave(checked);
+  };
+
+  const exportAs = (format: 'md' | 'json') => {
+    if (!summary) return;
+    const { title, startedAt } = getTranscript();
+    downloadSummary(summary, { title, startedAt }, format);
+  };
+
+  if (!summary && !draft) {
+    return (
+      <div className="flex items-center gap-3">
+        <button
+          onClick={generate}
+          disabled={isGenerating}
+          className="flex items-center gap-2 text-xs font-mono uppercase tracking-wider text-cyan-300 border border-cyan-500/30 bg-cyan-900/20 hover:bg-cyan-900/40 disabled:opacity-50 disabled:cursor-wait rounded-lg px-3 py-1.5 transition-colors"
+        >
+          <SparklesIcon className={`w-4 h-4 ${isGenerating ? 'animate-pulse' : ''}`} />
+          {isGenerating ? 'Summarizing...' : 'Summarize'}
+        </button>
+        {error && <span className="text-xs text-red-400">{error}</span>}
+      </div>
+    );
+  }
+
+  if (draft) {
+    const setItem = (index: number, update: Partial<MeetingSummary['actionItems'][number]>) =>
+      setDraft({ ...draft, actionItems: draft.actionItems.map((item, i) => (i === index ? { ...item, ...update } : item)) });
+
+    return (
+      <div className="bg-slate-800 border border-cyan-500/30 rounded-xl p-4 space-y-4">
+        <div>
+          <div className={SECTION}>Summary</div>
+          <textarea value={draft.summary} onChange={(e) => setDraft({ ...draft, summary: e.target.value })} rows={4} className={`w-full ${FIELD}`} />
+        </div>
+
+        <div>
+          <div className={SECTION}>Decisions</div>
+          <div className="space-y-1">
+            {draft.decisions.map((decision, i) => (
+              <div key={i} className="flex gap-2">
+                <input
+                  value={decision}
+                  onChange={(e) => setDraft({ ...draft, decisions: draft.decisions.map((d, j) => (j === i ? e.target.value : d)) })}
+                  className={`flex-1 min-w-0 ${FIELD}`}
+                />
+                <button onClick={() => setDraft({ ...draft, decisions: draft.decisions.filter((_, j) => j !== i) })} title="Remove" className="text-slate-500 hover:text-red-400">
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <button onClick={() => setDraft({ ...draft, decisions: [...draft.decisions, ''] })} className="mt-1 flex items-center gap-1 text-[10px] font-mono uppercase text-cyan-400 hover:text-cyan-300">
+            <PlusIcon className="w-3 h-3" /> Decision
+          </button>
+        </div>
+
+        <div>
+          <div className={SECTION}>Action items</div>
+          <div className="space-y-1">
+            {draft.actionItems.map((item, i) => (
+              <div key={i} className="flex flex-wrap sm:flex-nowrap gap-2">
+                <input value={item.task} onChange={(e) => setItem(i, { task: e.target.value })} placeholder="Task" className={`flex-1 min-w-[12rem] ${FIELD}`} />
+                <input value={item.owner ?? ''} onChange={(e) => setItem(i, { owner: e.target.value })} placeholder="Owner" className={`w-32 ${FIELD}`} />
+                <input value={item.due ?? ''} onChange={(e) => setItem(i, { due: e.target.value })} placeholder="Due" className={`w-28 ${FIELD}`} />
+                <button onClick={() => setDraft({ ...draft, actionItems: draft.actionItems.filter((_, j) => j !== i) })} title="Remove" className="text-slate-500 hover:text-red-400">
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={() => setDraft({ ...draft, actionItems: [...draft.actionItems, { task: '', owner: null, due: null }] })}
+            className="mt-1 flex items-center gap-1 text-[10px] font-mono uppercase text-cyan-400 hover:text-cyan-300"
+          >
+            <PlusIcon className="w-3 h-3" /> Action item
+          </button>
+        </div>
+
+        {error && <div className="text-xs text-red-400">{error}</div>}
+        <div className="flex justify-end gap-2">
+          <button onClick={() => { setDraft(null); setError(null); }} className="text-xs font-mono uppercase text-slate-400 hover:text-white px-3 py-1.5">Cancel</button>
+          <button onClick={saveDraft} className="text-xs font-mono uppercase bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg px-3 py-1.5 transition-colors">Save</button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-slate-800 border border-slate-700 rounded-xl p-4 space-y-4">
+      <div className="flex items-center gap-2">
+        <SparklesIcon className="w-4 h-4 text-cyan-400" />
+        <h3 className="text-xs font-mono font-bold uppercase tracking-wider text-slate-300">Meeting Summary</h3>
+        <div className="ml-auto flex items-center gap-3 text-slate-500">
+          <button onClick={() => setDraft(summary)} title="Edit" className="hover:text-white transition-colors">
+            <PencilIcon className="w-4 h-4" />
+          </button>
+          <button onClick={generate} disabled={isGenerating} title="Summarize again" className="hover:text-white transition-colors disabled:cursor-wait">
+            <ArrowPathIcon className={`w-4 h-4 ${isGenerating ? 'animate-spin' : ''}`} />
+          </button>
+          <button onClick={() => exportAs('md')} title="Export as Markdown" className="flex items-center gap-0.5 text-[10px] font-mono hover:text-white transition-colors">
+            <ArrowDownTrayIcon className="w-4 h-4" /> MD
+          </button>
+          <button onClick={() => exportAs('json')} title="Export as JSON" className="flex items-center gap-0.5 text-[10px] font-mono hover:text-white transition-colors">
+            <ArrowDownTrayIcon className="w-4 h-4" /> JSON
+          </button>
+        </div>
+      </div>
+
+      <p className="text-sm text-slate-200 leading-relaxed whitespace-pre-wrap">{summary!.summary}</p>
+
+      <div>
+        <div className={SECTION}>Decisions</div>
+        {summary!.decisions.length > 0 ? (
+          <ul className="list-disc pl-5 text-sm text-slate-300 space-y-0.5">
+            {summary!.decisions.map((decision, i) => <li key={i}>{decision}</li>)}
+          </ul>
+        ) : <div className="text-xs italic text-slate-600">None recorded.</div>}
+      </div>
+
+      <div>
+        <div className={SECTION}>Action items</div>
+        {summary!.actionItems.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-slate-300">
+              <thead>
+                <tr className="text-left text-[10px] font-mono uppercase text-slate-500">
+                  <th className="font-normal pb-1 pr-3">Task</th>
+                  <th className="font-normal pb-1 pr-3">Owner</th>
+                  <th className="font-normal pb-1">Due</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary!.actionItems.map((item, i) => (
+                  <tr key={i} className="border-t border-slate-700/60 align-top">
+                    <td className="py-1 pr-3">{item.task}</td>
+                    <td className="py-1 pr-3 whitespace-nowrap">{item.owner ?? <span className="text-slate-600">—</span>}</td>
+                    <td className="py-1 whitespace-nowrap">{item.due ?? <span className="text-slate-600">—</span>}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : <div className="text-xs italic text-slate-600">None recorded.</div>}
+      </div>
+
+      {error && <div className="text-xs text-red-400">{error}</div>}
+    </div>
+  );
+};
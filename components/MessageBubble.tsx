@@ -0,0 +1,88 @@
+import React from 'react';
+import { Message } from '../types';
+import { SpeakerNames, messageSpeakers, speakerName, speakerStyle } from '../utils/speakers';
+import { TranslationPair, BilingualLayout } from './TranslationPair';
+import { Markdown } from './Markdown';
+import { UserIcon, CpuChipIcon, LanguageIcon } from '@heroicons/react/24/solid';
+
+// Sub-component for rendering messages with potential speaker labels
+export const MessageBubble: React.FC<{ msg: Message, speakerNames?: SpeakerNames, bilingualLayout?: BilingualLayout }> = ({ msg, speakerNames = {}, bilingualLayout = 'side-by-side' }) => {
+  const isUser = msg.role === 'user';
+  const isSystem = msg.role === 'system';
+  
+  // Replies are Markdown; what people said is shown as transcribed
+  const renderText = (text: string) => isUser
+    ? text.split('\n').map((line, i) => <div key={i} className={i > 0 ? "mt-1" : ""}>{line}</div>)
+    : <Markdown text={text} />;
+
+  // Speaker turns come typed on the message (or parsed from saved text) and
+  // are shown under their current display name
+  const renderSpeakerText = () => {
+    const spans = messageSpeakers(msg);
+    if (!spans) return renderText(msg.text);
+
+    return spans.map((span, i) => {
+      if (!span.speakerId) return <div key={i} className="mb-2 last:mb-0">{renderText(span.text)}</div>;
+      return (
+        <div key={i} className="flex flex-col mb-2 last:mb-0">
+           <span className={`self-start text-[10px] font-bold uppercase tracking-wider mb-1 flex items-center gap-1.5 border rounded-full pl-0.5 pr-2 py-0.5 ${speakerStyle(span.speakerId)}`}>
+              <span className="w-4 h-4 rounded-full bg-black/20 flex items-center justify-center">
+                  <UserIcon className="w-2.5 h-2.5" />
+              </span>
+              {speakerName(span.speakerId, speakerNames)}
+           </span>
+           <div className="pl-1">{renderText(span.text)}</div>
+        </div>
+      );
+    });
+  };
+
+  if (msg.translation) {
+    return <TranslationPair msg={msg} layout={bilingualLayout} />;
+  }
+
+  if (isSystem) {
+    return (
+        <div className="flex justify-center my-2 animate-fade-in">
+            <div className="bg-slate-800/80 backdrop-blur text-cyan-400 text-xs font-mono border border-slate-700 rounded-full px-4 py-1 shadow-sm flex items-center gap-2">
+                <CpuChipIcon className="w-3 h-3" />
+                {msg.text}
+            </div>
+        </div>
+    );
+  }
+
+  return (
+    <div className={`flex ${isUser ? 'justify-end' : 'justify-start'} mb-4 animate-fade-in-up`}>
+       <div className={`max-w-[85%] rounded-2xl px-5 py-3 shadow-lg backdrop-blur-sm relative overflow-hidden ${
+          isUser 
+            ? 'bg-gradient-to-br from-cyan-600/90 to-cyan-800/90 text-white rounded-tr-sm border border-cyan-500/30' 
+            : 'bg-slate-800/90 text-slate-100 border border-slate-700/50 rounded-tl-sm'
+       }`}>
+          {/* Decorative noise texture */}
+          <div className="absolute inset-0 opacity-[0.03] bg-[url('data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHdpZHRoPSI0IiBoZWlnaHQ9IjQiPgo8cmVjdCB3aWR0aD0iNCIgaGVpZ2h0PSI0IiBmaWxsPSIjZmZmIi8+CjxyZWN0IHdpZHRoPSIxIiBoZWlnaHQ9IjEiIGZpbGw9IiMwMDAiLz4KPC9zdmc+')]"></div>
+          
+          <div className="relative z-10 text-sm leading-relaxed">
+             {renderSpeakerText()}
+          </div>
+          
+          <div className="relative z-10 mt-1 flex justify-end items-center gap-2">
+             {msg.language && (
+                <span className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider border border-white/10 bg-black/20 rounded-full px-1.5 py-0.5 opacity-70" title="Spoken language">
+                   <LanguageIcon className="w-2.5 h-2.5" />
+                   {msg.language}
+                </span>
+             )}
+             {msg.interrupted && (
+                <span className="text-[10px] font-mono font-bold uppercase tracking-wider text-amber-400/80" title="Cut off when you started speaking">
+                   Interrupted
+                </span>
+             )}
+             <span className="text-[10px] opacity-40 font-mono">
+                {msg.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+             </span>
+          </div>
+       </div>
+    </div>
+  );
+};
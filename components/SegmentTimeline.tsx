@@ -0,0 +1,37 @@
+import React from 'react';
+import { TranscriptSegment } from '../types';
+import { normalizeSpeakerId, speakerStyle } from '../utils/speakers';
+
+const formatClock = (seconds: number) => {
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const mmss = `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+  return h > 0 ? `${h}:${mmss}` : mmss;
+};
+
+export const SegmentTimeline: React.FC<{ segments: TranscriptSegment[] }> = ({ segments }) => {
+  return (
+    <div className="flex flex-col">
+      {segments.map((segment, i) => {
+        const style = speakerStyle(normalizeSpeakerId(segment.speaker));
+        return (
+          <div key={i} className="flex gap-3 group">
+            {/* Time rail */}
+            <div className="flex flex-col items-center w-14 shrink-0">
+              <span className="text-[10px] text-slate-500 font-mono pt-0.5">{formatClock(segment.start)}</span>
+              <div className="flex-1 w-px bg-slate-700 group-last:bg-transparent my-1"></div>
+            </div>
+            <div className="flex-1 pb-4">
+              <span className={`inline-block text-[10px] font-bold uppercase tracking-wider border rounded-full px-2 py-0.5 mb-1 ${style}`}>
+                {segment.speaker}
+              </span>
+              <p className="text-sm text-slate-300 leading-relaxed">{segment.text}</p>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,278 @@
+import React, { useEffect, useState } from 'react';
+import { listSessions, getSessionTurns, deleteSession, updateSessionMetadata } from '../utils/transcripts';
+import { collectSpeakers, speakerNamesFrom } from '../utils/speakers';
+import { AUTO_DETECT } from '../utils/languages';
+import { collectLanguages, filterByLanguage } from '../utils/languageTags';
+import { MeetingSummary, Message, TranscriptMode, TranscriptSession } from '../types';
+import { MessageBubble } from './MessageBubble';
+import { MeetingSummaryPanel } from './MeetingSummaryPanel';
+import { ExportMenu } from './ExportMenu';
+import { SpeakerLegend } from './SpeakerLegend';
+import { SessionRecordings } from './SessionRecordings';
+import { SessionRecording } from '../utils/sessionRecorder';
+import { summaryFromMetadata } from '../utils/meetingSummary';
+import { TranscriptAttachment, attachmentFor } from '../utils/chatThreads';
+import { cuesFromMessages } from '../utils/transcriptExport';
+import { ArrowLeftIcon, ArrowPathIcon, MicrophoneIcon, ChatBubbleLeftRightIcon, BoltIcon, ClockIcon, TrashIcon, ChatBubbleOvalLeftEllipsisIcon } from '@heroicons/react/24/outline';
+
+const MODE_LABELS: Record<TranscriptMode, string> = {
+  live: 'Live',
+  batch: 'Transcribe',
+  chat: 'Fast Chat'
+};
+
+const ModeIcon: React.FC<{ mode: TranscriptMode, className?: string }> = ({ mode, className }) => {
+  if (mode === 'live') return <MicrophoneIcon className={className} />;
+  if (mode === 'batch') return <ChatBubbleLeftRightIcon className={className} />;
+  return <BoltIcon className={className} />;
+};
+
+const formatDuration = (session: TranscriptSession) => {
+  if (!session.endedAt) return 'In progress';
+  const seconds = Math.max(0, Math.round((session.endedAt.getTime() - session.startedAt.getTime()) / 1000));
+  const m = Math.floor(seconds / 60);
+  const s = seconds % 60;
+  return `${m}m ${s.toString().padStart(2, '0')}s`;
+};
+
+// Only boolean flags are shown as chips; other metadata (model, sizes) stays in the record.
+const metadataFlags = (metadata: Record<string, unknown>) =>
+  Object.entries(metadata).filter(([, value]) => value === true).map(([key]) => key);
+
+// Languages spoken in a session, as recorded with its turns
+const sessionLanguages = (metadata: Record<string, unknown>): string[] =>
+  Array.isArray(metadata.languages) ? metadata.languages.filter((language): language is string => typeof language === 'string') : [];
+
+const LanguageFilter: React.FC<{ languages: string[], value: string | null, onChange: (language: string | null) => void }> = ({ languages, value, onChange }) => {
+  if (languages.length === 0) return null;
+  return (
+    <select
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value || null)}
+      title="Filter by language"
+      className="bg-slate-800 border border-slate-700 rounded-lg text-[10px] font-mono uppercase text-slate-300 px-2 py-1 focus:outline-none focus:border-cyan-500/50"
+    >
+      <option value="">All languages</option>
+      {languages.map(language => <option key={language} value={language}>{language}</option>)}
+    </select>
+  );
+};
+
+interface SessionHistoryProps {
+  onReplay: (recording: SessionRecording) => void;
+  onAsk: (attachment: TranscriptAttachment) => void;
+}
+
+export const SessionHistory: React.FC<SessionHistoryProps> = ({ onReplay, onAsk }) => {
+  const [sessions, setSessions] = useState<TranscriptSession[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [openSession, setOpenSession] = useState<TranscriptSession | null>(null);
+  const [turns, setTurns] = useState<Message[]>([]);
+  const [sessionLanguage, setSessionLanguage] = useState<string | null>(null);
+  const [turnLanguage, setTurnLanguage] = useState<string | null>(null);
+
+  const loadSessions = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setSessions(await listSessions());
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message || 'Could not load history.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const openSessionView = async (session: TranscriptSession) => {
+    setOpenSession(session);
+    setTurns([]);
+    setTurnLanguage(null);
+    setIsLoading(true);
+    setError(null);
+    try {
+      setTurns(await getSessionTurns(session.id));
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message || 'Could not load session.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const removeSession = async (session: TranscriptSession) => {
+    if (!window.confirm('Delete this session and all of its turns?')) return;
+    setError(null);
+    try {
+      await deleteSession(session.id);
+      setSessions(prev => prev.filter(s => s.id !== session.id));
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message || 'Could not delete session.');
+    }
+  };
+
+  const renameSpeaker = (speakerId: string, name: string) => {
+    if (!openSession) return;
+    const speakerNames = { ...speakerNamesFrom(openSession.metadata) };
+    if (name) speakerNames[speakerId] = name;
+    else delete speakerNames[speakerId];
+
+    const updated = { ...openSession, metadata: { ...openSession.metadata, speakerNames } };
+    setOpenSession(updated);
+    setSessions(prev => prev.map(s => (s.id === updated.id ? updated : s)));
+    updateSessionMetadata(updated.id, updated.metadata);
+  };
+
+  const saveSummary = (summary: MeetingSummary) => {
+    if (!openSession) return;
+    const updated = { ...openSession, metadata: { ...openSession.metadata, summary } };
+    setOpenSession(updated);
+    setSessions(prev => prev.map(s => (s.id === updated.id ? updated : s)));
+    updateSessionMetadata(updated.id, updated.metadata);
+  };
+
+  if (openSession) {
+    const speakerNames = speakerNamesFrom(openSession.metadata);
+    const speakers = collectSpeakers(turns);
+    const languages = collectLanguages(turns);
+    // Export follows the filter, so one language can be taken out on its own
+    const visibleTurns = filterByLanguage(turns, turnLanguage);
+    const exportLanguage = turnLanguage ?? (typeof openSession.metadata.targetLanguage === 'string'
+      ? `${openSession.metadata.sourceLanguage === AUTO_DETECT ? 'Auto-detected' : openSession.metadata.sourceLanguage} → ${openSession.metadata.targetLanguage}`
+      : null);
+    const exportTranscript = (messages: Message[] = visibleTurns) => ({
+      title: `EBURON ${MODE_LABELS[openSession.mode]} Session`,
+      startedAt: openSession.startedAt,
+      ...(exportLanguage && { language: exportLanguage }),
+      cues: cuesFromMessages(messages, openSession.startedAt, undefined, speakerNames)
+    });
+    return (
+      <div className="flex flex-col h-full bg-slate-900">
+        <div className="p-4 border-b border-slate-800 bg-slate-900/50 backdrop-blur sticky top-0 z-10 flex items-center gap-3">
+          <button onClick={() => setOpenSession(null)} className="text-slate-400 hover:text-white transition-colors">
+            <ArrowLeftIcon className="w-5 h-5" />
+          </button>
+          <ModeIcon mode={openSession.mode} className="w-5 h-5 text-cyan-400" />
+          <div className="flex flex-col">
+            <h2 className="text-sm font-mono text-slate-300 tracking-wider uppercase">{MODE_LABELS[openSession.mode]} Session</h2>
+            <span className="text-[10px] font-mono text-slate-500">
+              {openSession.startedAt.toLocaleString()} · {formatDuration(openSession)}
+            </span>
+          </div>
+          <div className="ml-auto flex items-center gap-2">
+            <LanguageFilter languages={languages} value={turnLanguage} onChange={setTurnLanguage} />
+            <span className="text-[10px] font-mono text-slate-500 border border-slate-700 rounded-full px-2 py-0.5">READ ONLY</span>
+            {/* Chats are not grounding material themselves */}
+            {openSession.mode !== 'chat' && (
+              <button
+                onClick={() => onAsk(attachmentFor(openSession))}
+                disabled={turns.length === 0}
+                className="flex items-center gap-1 text-[10px] font-bold tracking-wider px-2 py-0.5 rounded-full border text-cyan-400 border-cyan-500/30 bg-cyan-900/20 hover:bg-cyan-900/40 disabled:text-slate-600 disabled:border-slate-700 disabled:bg-transparent disabled:cursor-not-allowed transition-colors"
+              >
+                <ChatBubbleOvalLeftEllipsisIcon className="w-3 h-3" />
+                ASK ABOUT THIS
+              </button>
+            )}
+            <ExportMenu
+              disabled={visibleTurns.length === 0}
+              getTranscript={() => exportTranscript()}
+            />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {speakers.length > 0 && (
+            <div className="mb-4">
+              <SpeakerLegend speakers={speakers} names={speakerNames} onRename={renameSpeaker} />
+            </div>
+          )}
+          {/* Minutes cover every turn, whatever the language filter */}
+          {openSession.mode !== 'chat' && turns.length > 0 && (
+            <div className="mb-4">
+              <MeetingSummaryPanel summary={summaryFromMetadata(openSession.metadata)} getTranscript={() => exportTranscript(turns)} onSave={saveSummary} />
+            </div>
+          )}
+          {isLoading && <div className="text-center text-xs font-mono text-slate-500">Loading turns...</div>}
+          {error && <div className="text-center text-xs text-red-400">{error}</div>}
+          {!isLoading && !error && turns.length === 0 && (
+            <div className="text-center text-xs font-mono text-slate-600 italic">No turns were recorded for this session.</div>
+          )}
+          {visibleTurns.map(msg => (
+            <MessageBubble key={msg.id} msg={msg} speakerNames={speakerNames} />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full bg-slate-900">
+      <div className="p-4 border-b border-slate-800 bg-slate-900/50 backdrop-blur sticky top-0 z-10 flex items-center gap-2">
+        <ClockIcon className="w-5 h-5 text-cyan-400" />
+        <h2 className="text-sm font-mono text-slate-300 tracking-wider">SESSION_HISTORY</h2>
+        <div className="ml-auto">
+          <LanguageFilter
+            languages={[...new Set(sessions.flatMap(session => sessionLanguages(session.metadata)))]}
+            value={sessionLanguage}
+            onChange={setSessionLanguage}
+          />
+        </div>
+        <button onClick={loadSessions} disabled={isLoading} className="text-slate-400 hover:text-white transition-colors">
+          <ArrowPathIcon className={`w-5 h-5 ${isLoading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        <SessionRecordings onReplay={onReplay} />
+        {error && <div className="text-xs text-red-400 bg-red-500/10 border border-red-500/20 px-3 py-2 rounded">{error}</div>}
+        {!isLoading && !error && sessions.length === 0 && (
+          <div className="text-center text-xs font-mono text-slate-600 italic">No sessions recorded yet.</div>
+        )}
+        {sessions
+          .filter(session => !sessionLanguage || sessionLanguages(session.metadata).includes(sessionLanguage))
+          .map(session => (
+          <div key={session.id} className="w-full bg-slate-800 hover:bg-slate-700/80 border border-slate-700 rounded-xl transition-colors flex items-center">
+            <button
+              onClick={() => openSessionView(session)}
+              className="flex-1 min-w-0 text-left p-4 flex items-center gap-4"
+            >
+              <div className="w-10 h-10 rounded-full bg-cyan-900/30 border border-cyan-500/30 flex items-center justify-center">
+                <ModeIcon mode={session.mode} className="w-5 h-5 text-cyan-400" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-bold text-slate-200 uppercase tracking-wide">{MODE_LABELS[session.mode]}</span>
+                  <span className="text-[10px] font-mono text-slate-500">{formatDuration(session)}</span>
+                </div>
+                <div className="text-xs font-mono text-slate-500">{session.startedAt.toLocaleString()}</div>
+                {(metadataFlags(session.metadata).length > 0 || sessionLanguages(session.metadata).length > 0) && (
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {metadataFlags(session.metadata).map(flag => (
+                      <span key={flag} className="text-[10px] font-mono uppercase text-purple-300 bg-purple-900/30 border border-purple-500/30 rounded-full px-2 py-0.5">
+                        {flag}
+                      </span>
+                    ))}
+                    {sessionLanguages(session.metadata).map(language => (
+                      <span key={language} className="text-[10px] font-mono uppercase text-emerald-300 bg-emerald-900/30 border border-emerald-500/30 rounded-full px-2 py-0.5">
+                        {language}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </button>
+            <button onClick={() => removeSession(session)} className="p-4 text-slate-500 hover:text-red-400 transition-colors">
+              <TrashIcon className="w-5 h-5" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
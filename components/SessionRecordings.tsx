@@ -0,0 +1,144 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  RecordingInfo, SessionRecording, deleteRecording, exportRecording, importRecording,
+  isRecordingEnabled, listRecordings, loadRecording, recordedMode, setRecordingEnabled
+} from '../utils/sessionRecorder';
+import { ArrowDownTrayIcon, ArrowUpTrayIcon, ChevronDownIcon, ChevronRightIcon, PlayIcon, TrashIcon, VideoCameraIcon } from '@heroicons/react/24/outline';
+
+interface SessionRecordingsProps {
+  onReplay: (recording: SessionRecording) => void;
+}
+
+const formatLength = (info: RecordingInfo) => {
+  if (!info.endedAt) return 'Unfinished';
+  const seconds = Math.max(0, Math.round((Date.parse(info.endedAt) - Date.parse(info.startedAt)) / 1000));
+  return `${Math.floor(seconds / 60)}m ${(seconds % 60).toString().padStart(2, '0')}s`;
+};
+
+// Debug recordings of raw Live traffic, kept apart from the transcripts
+// themselves: switched on here, exported for bug reports and replayed offline.
+export const SessionRecordings: React.FC<SessionRecordingsProps> = ({ onReplay }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [enabled, setEnabled] = useState(isRecordingEnabled);
+  const [recordings, setRecordings] = useState<RecordingInfo[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    setError(null);
+    try {
+      setRecordings(await listRecordings());
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message || 'Could not load recordings.');
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) refresh();
+  }, [isOpen]);
+
+  const toggleEnabled = (next: boolean) => {
+    setRecordingEnabled(next);
+    setEnabled(next);
+  };
+
+  // Chunks are only read when a recording is used; the list shows the summaries
+  const withRecording = async (info: RecordingInfo, use: (recording: SessionRecording) => void) => {
+    setError(null);
+    try {
+      const recording = await loadRecording(info.id);
+      if (!recording) throw new Error('This recording no longer exists.');
+      use(recording);
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message || 'Could not open recording.');
+    }
+  };
+
+  const remove = async (info: RecordingInfo) => {
+    if (!window.confirm('Delete this recording?')) return;
+    setError(null);
+    try {
+      await deleteRecording(info.id);
+      setRecordings(prev => prev.filter(r => r.id !== info.id));
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message || 'Could not delete recording.');
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      await importRecording(file);
+      await refresh();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Could not import recording.');
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700 rounded-xl">
+      <button onClick={() => setIsOpen(open => !open)} className="w-full p-3 flex items-center gap-2 text-left">
+        {isOpen ? <ChevronDownIcon className="w-4 h-4 text-slate-500" /> : <ChevronRightIcon className="w-4 h-4 text-slate-500" />}
+        <VideoCameraIcon className="w-4 h-4 text-violet-400" />
+        <span className="text-xs font-mono text-slate-300 tracking-wider">DEBUG_RECORDINGS</span>
+        {enabled && <span className="ml-auto text-[10px] font-mono uppercase text-red-300 bg-red-900/30 border border-red-500/30 rounded-full px-2 py-0.5">Recording</span>}
+      </button>
+
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-3">
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+              <input type="checkbox" checked={enabled} onChange={(e) => toggleEnabled(e.target.checked)} className="accent-violet-500" />
+              Record raw audio and server messages of Live sessions
+            </label>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="ml-auto flex items-center gap-1 text-[10px] font-mono uppercase text-slate-400 hover:text-white border border-slate-700 rounded-lg px-2 py-1 transition-colors"
+            >
+              <ArrowUpTrayIcon className="w-3 h-3" /> Import
+            </button>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+          </div>
+          <p className="text-[10px] text-slate-500">
+            Recordings stay in this browser until exported. They contain everything that was said, so only share them where the transcript could be shared.
+          </p>
+
+          {error && <div className="text-xs text-red-400 bg-red-500/10 border border-red-500/20 px-3 py-2 rounded">{error}</div>}
+          {!error && recordings.length === 0 && (
+            <div className="text-center text-xs font-mono text-slate-600 italic">No recordings yet.</div>
+          )}
+
+          {recordings.map(info => (
+            <div key={info.id} className="bg-slate-900/60 border border-slate-700 rounded-lg p-3 flex items-center gap-3">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs font-bold text-slate-200 uppercase tracking-wide">{recordedMode(info) === 'live' ? 'Live' : 'Transcribe'}</span>
+                  <span className="text-[10px] font-mono text-slate-500">{formatLength(info)}</span>
+                </div>
+                <div className="text-[10px] font-mono text-slate-500 truncate">
+                  {new Date(info.startedAt).toLocaleString()} · {info.provider}/{info.model} · {info.messageCount} messages · {info.inputCount} inputs
+                </div>
+              </div>
+              <button onClick={() => withRecording(info, onReplay)} title="Replay" className="text-slate-400 hover:text-violet-300 transition-colors">
+                <PlayIcon className="w-4 h-4" />
+              </button>
+              <button onClick={() => withRecording(info, exportRecording)} title="Export archive" className="text-slate-400 hover:text-white transition-colors">
+                <ArrowDownTrayIcon className="w-4 h-4" />
+              </button>
+              <button onClick={() => remove(info)} title="Delete" className="text-slate-500 hover:text-red-400 transition-colors">
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { SpeakerNames, speakerName, speakerStyle } from '../utils/speakers';
+import { PencilIcon } from '@heroicons/react/24/outline';
+
+// Speakers heard so far. Clicking one renames it everywhere in the transcript;
+// an empty name goes back to the model's label.
+export const SpeakerLegend: React.FC<{ speakers: string[], names: SpeakerNames, onRename: (speakerId: string, name: string) => void }> = ({ speakers, names, onRename }) => {
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  if (speakers.length === 0) return null;
+
+  const startEditing = (speakerId: string) => {
+    setEditing(speakerId);
+    setDraft(names[speakerId] ?? '');
+  };
+
+  const commit = () => {
+    if (editing) onRename(editing, draft.trim());
+    setEditing(null);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      {speakers.map(speakerId => (
+        editing === speakerId ? (
+          <input
+            key={speakerId}
+            autoFocus
+            value={draft}
+            placeholder={speakerId}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commit();
+              if (e.key === 'Escape') setEditing(null);
+            }}
+            className={`text-[10px] font-bold uppercase tracking-wider border rounded-full px-2 py-0.5 w-28 focus:outline-none ${speakerStyle(speakerId)}`}
+          />
+        ) : (
+          <button
+            key={speakerId}
+            onClick={() => startEditing(speakerId)}
+            title={`Rename ${speakerId}`}
+            className={`flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider border rounded-full px-2 py-0.5 hover:brightness-125 transition-all ${speakerStyle(speakerId)}`}
+          >
+            {speakerName(speakerId, names)}
+            <PencilIcon className="w-2.5 h-2.5 opacity-60" />
+          </button>
+        )
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,9 @@
+import React from 'react';
+
+// Speech / no-speech state from the voice activity gate
+export const SpeechIndicator: React.FC<{ isSpeech: boolean }> = ({ isSpeech }) => (
+  <span className={`flex items-center gap-1.5 text-[10px] font-mono font-bold tracking-wider ${isSpeech ? 'text-green-400' : 'text-slate-500'}`}>
+    <span className={`w-1.5 h-1.5 rounded-full ${isSpeech ? 'bg-green-400 animate-pulse' : 'bg-slate-600'}`}></span>
+    {isSpeech ? 'SPEECH' : 'SILENCE'}
+  </span>
+);
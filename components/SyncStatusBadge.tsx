@@ -0,0 +1,72 @@
+import React, { useSyncExternalStore } from 'react';
+import { transcriptQueue } from '../utils/transcripts';
+import { CloudArrowUpIcon, ArrowPathIcon, ExclamationTriangleIcon, XCircleIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+// Writes the backend refused or that kept failing; they stay stored until retried or discarded
+const FailedWrites: React.FC<{ count: number, error: string | null }> = ({ count, error }) => {
+  const discard = () => {
+    if (!window.confirm(`Discard ${count} unsaved transcript write${count > 1 ? 's' : ''}? They cannot be recovered.`)) return;
+    transcriptQueue.discardFailed();
+  };
+
+  return (
+    <span className="text-[10px] text-red-400 flex items-center gap-1 bg-red-400/10 px-2 py-0.5 rounded-full border border-red-400/20">
+      <button
+        onClick={() => transcriptQueue.retryFailed()}
+        title={`${error ? `${error}. ` : ''}Click to retry.`}
+        className="flex items-center gap-1 hover:text-red-300"
+      >
+        <XCircleIcon className="w-3 h-3" />
+        FAILED {count}
+      </button>
+      <button onClick={discard} title="Discard" className="text-red-400/60 hover:text-red-300">
+        <XMarkIcon className="w-3 h-3" />
+      </button>
+    </span>
+  );
+};
+
+const PendingBadge: React.FC<{ pending: number, syncing: boolean, error: string | null }> = ({ pending, syncing, error }) => {
+  if (syncing) {
+    return (
+      <span className="text-[10px] text-cyan-400 flex items-center gap-1 bg-cyan-400/10 px-2 py-0.5 rounded-full border border-cyan-400/20">
+        <ArrowPathIcon className="w-3 h-3 animate-spin" />
+        SYNCING {pending}
+      </span>
+    );
+  }
+
+  return (
+    <span
+      title={error || undefined}
+      className="text-[10px] text-amber-400 flex items-center gap-1 bg-amber-400/10 px-2 py-0.5 rounded-full border border-amber-400/20"
+    >
+      <ExclamationTriangleIcon className="w-3 h-3" />
+      PENDING {pending}
+    </span>
+  );
+};
+
+// Shows whether locally buffered transcript writes have reached the backend yet.
+export const SyncStatusBadge: React.FC = () => {
+  const status = useSyncExternalStore(transcriptQueue.subscribe, transcriptQueue.getStatus);
+
+  if (status.failed > 0) {
+    return (
+      <span className="flex items-center gap-1">
+        <FailedWrites count={status.failed} error={status.failure} />
+        {status.pending > 0 && <PendingBadge pending={status.pending} syncing={status.syncing} error={status.lastError} />}
+      </span>
+    );
+  }
+  if (status.pending === 0) {
+    return (
+      <span className="text-[10px] text-green-400 flex items-center gap-1 bg-green-400/10 px-2 py-0.5 rounded-full border border-green-400/20">
+        <CloudArrowUpIcon className="w-3 h-3" />
+        SYNCED
+      </span>
+    );
+  }
+
+  return <PendingBadge pending={status.pending} syncing={status.syncing} error={status.lastError} />;
+};
@@ -0,0 +1,64 @@
+import React, { useEffect, useState } from 'react';
+import { listSessions } from '../utils/transcripts';
+import { TranscriptAttachment, attachmentFor } from '../utils/chatThreads';
+import { TranscriptSession } from '../types';
+import { CheckCircleIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface TranscriptPickerProps {
+  attached: TranscriptAttachment[];
+  onToggle: (attachment: TranscriptAttachment) => void;
+  onClose: () => void;
+}
+
+// Saved Live and Transcribe sessions a Fast Chat thread can be grounded on.
+// Other chats are left out; their answers are not a source.
+export const TranscriptPicker: React.FC<TranscriptPickerProps> = ({ attached, onToggle, onClose }) => {
+  const [sessions, setSessions] = useState<TranscriptSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listSessions()
+      .then(all => setSessions(all.filter(session => session.mode !== 'chat')))
+      .catch((e: any) => {
+        console.error(e);
+        setError(e.message || 'Could not load history.');
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  return (
+    <div className="p-4 border-b border-slate-800 bg-slate-800/40">
+      <div className="flex items-center mb-3">
+        <span className="text-xs font-mono uppercase tracking-wider text-slate-400">Attach transcripts</span>
+        <button onClick={onClose} title="Close" className="ml-auto text-slate-500 hover:text-white transition-colors">
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+      {isLoading && <div className="text-xs font-mono text-slate-500">Loading sessions...</div>}
+      {error && <div className="text-xs text-red-400">{error}</div>}
+      {!isLoading && !error && sessions.length === 0 && (
+        <div className="text-xs font-mono text-slate-600 italic">No Live or Transcribe sessions saved yet.</div>
+      )}
+      <div className="max-h-56 overflow-y-auto space-y-1">
+        {sessions.map(session => {
+          const attachment = attachmentFor(session);
+          const isAttached = attached.some(a => a.sessionId === session.id);
+          return (
+            <button
+              key={session.id}
+              onClick={() => onToggle(attachment)}
+              className={`w-full flex items-center gap-2 text-left text-sm rounded-lg border px-3 py-2 transition-colors ${isAttached ? 'bg-cyan-900/30 border-cyan-500/40 text-cyan-100' : 'border-slate-700 text-slate-300 hover:bg-slate-700/60'}`}
+            >
+              <span className="flex-1 truncate">{attachment.title}</span>
+              {typeof session.metadata.turns === 'number' && (
+                <span className="text-[10px] font-mono text-slate-500">{session.metadata.turns} turns</span>
+              )}
+              {isAttached && <CheckCircleIcon className="w-4 h-4 text-cyan-400" />}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
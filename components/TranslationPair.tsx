@@ -0,0 +1,46 @@
+import React from 'react';
+import { Message } from '../types';
+import { LanguageIcon } from '@heroicons/react/24/solid';
+
+export type BilingualLayout = 'side-by-side' | 'interleaved';
+
+const LanguageLabel: React.FC<{ label: string }> = ({ label }) => (
+  <span className="text-[10px] font-bold uppercase tracking-wider opacity-60 mb-1 block">{label}</span>
+);
+
+// An original turn and its translation, either as two columns or stacked
+export const TranslationPair: React.FC<{ msg: Message, layout: BilingualLayout }> = ({ msg, layout }) => {
+  const translation = msg.translation!;
+  const original = (
+    <div className="flex-1 min-w-0 rounded-2xl px-5 py-3 bg-gradient-to-br from-cyan-600/90 to-cyan-800/90 text-white border border-cyan-500/30 shadow-lg">
+      <LanguageLabel label={translation.sourceLanguage ?? msg.language ?? 'Original'} />
+      <p className="text-sm leading-relaxed">{msg.text}</p>
+    </div>
+  );
+  const translated = (
+    <div className="flex-1 min-w-0 rounded-2xl px-5 py-3 bg-emerald-900/40 text-emerald-50 border border-emerald-500/30 shadow-lg">
+      <LanguageLabel label={translation.targetLanguage} />
+      <p className="text-sm leading-relaxed">{translation.text}</p>
+    </div>
+  );
+
+  return (
+    <div className="mb-4 animate-fade-in-up">
+      <div className={layout === 'side-by-side' ? 'flex gap-2 items-stretch' : 'flex flex-col gap-1.5 max-w-[85%]'}>
+        {original}
+        {layout === 'interleaved' && <LanguageIcon className="w-3 h-3 text-emerald-500/60 ml-5" />}
+        {translated}
+      </div>
+      <div className="mt-1 flex justify-end items-center gap-2">
+        {msg.interrupted && (
+          <span className="text-[10px] font-mono font-bold uppercase tracking-wider text-amber-400/80" title="Translation cut off when you started speaking">
+            Interrupted
+          </span>
+        )}
+        <span className="text-[10px] text-slate-500 font-mono">
+          {msg.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+        </span>
+      </div>
+    </div>
+  );
+};
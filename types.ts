@@ -1,17 +1,90 @@
 export enum AppMode {
   LIVE = 'LIVE',
   TRANSCRIBE = 'TRANSCRIBE',
-  FAST_CHAT = 'FAST_CHAT'
+  FAST_CHAT = 'FAST_CHAT',
+  HISTORY = 'HISTORY'
 }
 
+// One speaker's stretch of a diarized message. speakerId is the label the
+// model used ("Speaker 1"); display names are kept separately so a rename
+// applies everywhere. Null for text before the first label.
+export interface SpeakerSpan {
+  speakerId: string | null;
+  text: string;
+}
+
+// Translation made from one original turn, stored with it so the two stay paired.
+// Languages are display names ("Spanish"); the source is null when it was auto-detected and never reported.
+export interface TurnTranslation {
+  text: string;
+  sourceLanguage: string | null;
+  targetLanguage: string;
+}
+
+// Which side of a call audio came from: this machine's microphone, or the shared system/tab audio
+export type AudioSource = 'local' | 'remote';
+
 export interface Message {
   id: string;
   role: 'user' | 'model' | 'system';
   text: string;
   timestamp: Date;
+  speakers?: SpeakerSpan[];
+  translation?: TurnTranslation;
+  // Display name of the language the turn was spoken in ("Spanish"), when known
+  language?: string;
+  // Model turn cut off by the user talking over it (or stopping a chat reply);
+  // text covers only what was played or had arrived
+  interrupted?: boolean;
+  // Transcript passages a grounded chat reply cited
+  citations?: Citation[];
+}
+
+// A passage of a saved transcript, as cited by a chat reply ("[T1.3]")
+export interface Citation {
+  id: string;
+  sessionId: string;
+  title: string;
+  // Where the passage starts, in seconds from the start of the session
+  offsetSeconds: number | null;
+  text: string;
 }
 
 export interface TranscribeResult {
   text: string;
   isProcessing: boolean;
 }
+
+// Minutes drawn from a transcript, kept in its session's metadata as `summary`
+export interface MeetingSummary {
+  summary: string;
+  decisions: string[];
+  actionItems: ActionItem[];
+}
+
+// Owner and due date as they were said ("Priya", "next Friday"), or null when nobody said
+export interface ActionItem {
+  task: string;
+  owner: string | null;
+  due: string | null;
+}
+
+export type TranscriptMode = 'live' | 'batch' | 'chat';
+
+// A recorded conversation or transcription run. Turns saved with the same
+// session id can be put back together in order via their turn index.
+export interface TranscriptSession {
+  id: string;
+  mode: TranscriptMode;
+  startedAt: Date;
+  endedAt: Date | null;
+  metadata: Record<string, unknown>;
+}
+
+// One timed stretch of speech from a transcribed file. Times are seconds from the start.
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  speaker: string;
+  text: string;
+}
@@ -0,0 +1,298 @@
+// Shared microphone + system audio capture for LiveAgent and BatchTranscriber.
+// Both sources feed their own GainNode into one mixer. The chosen microphone
+// and the gains are remembered in localStorage and applied live to every
+// running capture, and a capture follows device changes (a headset being
+// unplugged, or the preferred one coming back) without interrupting the graph.
+
+const SETTINGS_KEY = 'eburon.captureSettings';
+
+export interface CaptureSettings {
+  // null means the browser's default input
+  deviceId: string | null;
+  micGain: number;
+  systemGain: number;
+  // Only stream frames the voice activity detector classifies as speech
+  vadEnabled: boolean;
+  vadSensitivity: number;
+}
+
+export type SystemAudioState = 'off' | 'shared' | 'no-audio' | 'cancelled';
+
+export interface AudioCapture {
+  // Mixed mic + system audio
+  output: GainNode;
+  micGain: GainNode;
+  systemGain: GainNode;
+  systemAudio: SystemAudioState;
+  streams: MediaStream[];
+  // Label of the microphone currently in use
+  deviceLabel: string;
+  ondevicechange: ((label: string) => void) | null;
+  stop(): void;
+}
+
+const DEFAULT_SETTINGS: CaptureSettings = { deviceId: null, micGain: 1, systemGain: 1, vadEnabled: false, vadSensitivity: 0.5 };
+
+function loadSettings(): CaptureSettings {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+let settings = loadSettings();
+const settingsListeners = new Set<() => void>();
+const activeCaptures = new Set<{ apply: (next: CaptureSettings, previous: CaptureSettings) => void }>();
+
+export function getCaptureSettings(): CaptureSettings {
+  return settings;
+}
+
+export function subscribeCaptureSettings(listener: () => void): () => void {
+  settingsListeners.add(listener);
+  return () => settingsListeners.delete(listener);
+}
+
+export function updateCaptureSettings(update: Partial<CaptureSettings>) {
+  const previous = settings;
+  settings = { ...settings, ...update };
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn('Could not persist capture settings', e);
+  }
+  activeCaptures.forEach(capture => capture.apply(settings, previous));
+  settingsListeners.forEach(listener => listener());
+}
+
+export async function listInputDevices(): Promise<MediaDeviceInfo[]> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'audioinput' && device.deviceId !== 'default' && device.deviceId !== 'communications');
+}
+
+async function openMicrophone(deviceId: string | null): Promise<MediaStream> {
+  const base = { echoCancellation: true, noiseSuppression: true, channelCount: 1 };
+  if (deviceId) {
+    try {
+      return await navigator.mediaDevices.getUserMedia({ audio: { ...base, deviceId: { exact: deviceId } } });
+    } catch (e) {
+      // Remembered device is gone; fall back to the default one
+      console.warn('Preferred microphone unavailable, using default.', e);
+    }
+  }
+  return navigator.mediaDevices.getUserMedia({ audio: base });
+}
+
+async function openSystemAudio(): Promise<{ stream: MediaStream | null, state: SystemAudioState }> {
+  try {
+    const stream = await navigator.mediaDevices.getDisplayMedia({
+      video: true, // Required to get audio in many browsers
+      audio: { echoCancellation: false, autoGainControl: false, noiseSuppression: false, channelCount: 1 }
+    });
+    return { stream, state: stream.getAudioTracks().length > 0 ? 'shared' : 'no-audio' };
+  } catch (e) {
+    console.warn('System audio selection cancelled or failed', e);
+    return { stream: null, state: 'cancelled' };
+  }
+}
+
+export async function createAudioCapture(ctx: AudioContext, options: { useSystemAudio: boolean }): Promise<AudioCapture> {
+  const output = ctx.createGain();
+  const micGain = ctx.createGain();
+  const systemGain = ctx.createGain();
+  micGain.gain.value = settings.micGain;
+  systemGain.gain.value = settings.systemGain;
+  micGain.connect(output);
+  systemGain.connect(output);
+
+  let micStream = await openMicrophone(settings.deviceId);
+  let micSource = ctx.createMediaStreamSource(micStream);
+  micSource.connect(micGain);
+
+  const streams: MediaStream[] = [micStream];
+  let systemAudio: SystemAudioState = 'off';
+  if (options.useSystemAudio) {
+    const system = await openSystemAudio();
+    systemAudio = system.state;
+    if (system.stream) {
+      streams.push(system.stream);
+      if (system.state === 'shared') {
+        ctx.createMediaStreamSource(system.stream).connect(systemGain);
+      }
+    }
+  }
+
+  const currentDeviceId = () => micStream.getAudioTracks()[0]?.getSettings().deviceId ?? null;
+  const labelOf = (stream: MediaStream) => stream.getAudioTracks()[0]?.label || 'Default microphone';
+
+  let stopped = false;
+  let switching: Promise<void> | null = null;
+
+  // Opens the new microphone first and only then swaps it in, so the mixer never goes silent
+  const switchMicrophone = (deviceId: string | null) => {
+    switching = (switching ?? Promise.resolve()).then(async () => {
+      if (stopped) return;
+      try {
+        const nextStream = await openMicrophone(deviceId);
+        if (stopped) {
+          nextStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        const nextSource = ctx.createMediaStreamSource(nextStream);
+        nextSource.connect(micGain);
+        micSource.disconnect();
+        micStream.getTracks().forEach(track => track.stop());
+        streams[0] = nextStream;
+        micStream = nextStream;
+        micSource = nextSource;
+        watchTrack();
+        capture.deviceLabel = labelOf(nextStream);
+        capture.ondevicechange?.(capture.deviceLabel);
+      } catch (e) {
+        console.error('Microphone switch failed', e);
+      }
+    });
+  };
+
+  const watchTrack = () => {
+    const track = micStream.getAudioTracks()[0];
+    if (track) track.onended = () => switchMicrophone(settings.deviceId);
+  };
+  watchTrack();
+
+  const handleDeviceChange = async () => {
+    try {
+      const devices = await listInputDevices();
+      const ids = devices.map(device => device.deviceId);
+      const inUse = currentDeviceId();
+      const preferred = settings.deviceId;
+
+      if (preferred && ids.includes(preferred) && inUse !== preferred) {
+        // Preferred device came back
+        switchMicrophone(preferred);
+      } else if (inUse && !ids.includes(inUse)) {
+        // Device in use disappeared
+        switchMicrophone(preferred && ids.includes(preferred) ? preferred : null);
+      }
+    } catch (e) {
+      console.error('Could not check input devices', e);
+    }
+  };
+  navigator.mediaDevices.addEventListener('devicechange', handleDeviceChange);
+
+  const registration = {
+    apply: (next: CaptureSettings, previous: CaptureSettings) => {
+      micGain.gain.setTargetAtTime(next.micGain, ctx.currentTime, 0.05);
+      systemGain.gain.setTargetAtTime(next.systemGain, ctx.currentTime, 0.05);
+      if (next.deviceId !== previous.deviceId) switchMicrophone(next.deviceId);
+    }
+  };
+  activeCaptures.add(registration);
+
+  const capture: AudioCapture = {
+    output,
+    micGain,
+    systemGain,
+    systemAudio,
+    streams,
+    deviceLabel: labelOf(micStream),
+    ondevicechange: null,
+    stop: () => {
+      stopped = true;
+      activeCaptures.delete(registration);
+      navigator.mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+      streams.forEach(stream => stream.getTracks().forEach(track => {
+        track.onended = null;
+        track.stop();
+      }));
+      micSource.disconnect();
+      output.disconnect();
+    }
+  };
+
+  return capture;
+}
+
+const SYNTHETIC_LOOP_SECONDS = 12;
+
+// Speech-like test signal: voiced bursts (a few harmonics over a wavering
+// pitch, pulsed at syllable rate) separated by silence, so the level meter and
+// the voice activity gate behave as they would with someone talking. The
+// pattern comes from a fixed seed and is the same on every run.
+function synthesizeSpeech(ctx: BaseAudioContext, pitch: number, offsetSeconds: number): AudioBuffer {
+  const rate = ctx.sampleRate;
+  const buffer = ctx.createBuffer(1, SYNTHETIC_LOOP_SECONDS * rate, rate);
+  const data = buffer.getChannelData(0);
+  let seed = Math.round(pitch);
+  const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+
+  let t = offsetSeconds;
+  while (t < SYNTHETIC_LOOP_SECONDS - 1) {
+    const length = 1.5 + random();
+    const start = Math.floor(t * rate);
+    const end = Math.min(data.length, Math.floor((t + length) * rate));
+    let phase = 0;
+    for (let i = start; i < end; i++) {
+      const s = (i - start) / rate;
+      phase += 2 * Math.PI * pitch * (1 + 0.08 * Math.sin(2 * Math.PI * 0.7 * s)) / rate;
+      const syllables = 0.5 - 0.5 * Math.cos(2 * Math.PI * 4 * s);
+      const fade = Math.min(1, s / 0.05, (length - s) / 0.05);
+      data[i] = 0.15 * syllables * fade * (Math.sin(phase) + 0.5 * Math.sin(2 * phase) + 0.25 * Math.sin(3 * phase));
+    }
+    t += length + 1 + random();
+  }
+  return buffer;
+}
+
+// Drop-in for createAudioCapture in demo mode: no permission prompt, no
+// devices, a synthetic voice on the microphone and (optionally) a second one
+// on system audio, answering to the same gain settings.
+export function createSyntheticAudioCapture(ctx: AudioContext, options: { useSystemAudio: boolean }): AudioCapture {
+  const output = ctx.createGain();
+  const micGain = ctx.createGain();
+  const systemGain = ctx.createGain();
+  micGain.gain.value = settings.micGain;
+  systemGain.gain.value = settings.systemGain;
+  micGain.connect(output);
+  systemGain.connect(output);
+
+  const play = (buffer: AudioBuffer, destination: GainNode) => {
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.loop = true;
+    source.connect(destination);
+    source.start();
+    return source;
+  };
+  const sources = [play(synthesizeSpeech(ctx, 140, 0.5), micGain)];
+  // Offset and pitched apart so the two sides are easy to tell apart in dual-channel mode
+  if (options.useSystemAudio) sources.push(play(synthesizeSpeech(ctx, 210, 3), systemGain));
+
+  const registration = {
+    apply: (next: CaptureSettings) => {
+      micGain.gain.setTargetAtTime(next.micGain, ctx.currentTime, 0.05);
+      systemGain.gain.setTargetAtTime(next.systemGain, ctx.currentTime, 0.05);
+    }
+  };
+  activeCaptures.add(registration);
+
+  return {
+    output,
+    micGain,
+    systemGain,
+    systemAudio: options.useSystemAudio ? 'shared' : 'off',
+    streams: [],
+    deviceLabel: 'Synthetic voice (demo)',
+    ondevicechange: null,
+    stop: () => {
+      activeCaptures.delete(registration);
+      sources.forEach(source => {
+        source.stop();
+        source.disconnect();
+      });
+      output.disconnect();
+    }
+  };
+}
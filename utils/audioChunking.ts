@@ -0,0 +1,91 @@
+import { encodeWav } from './audioUtils';
+
+// Files are decoded straight to 16 kHz mono: plenty for speech and it keeps an
+// hour of audio to ~230 MB of samples instead of several GB at 48 kHz stereo.
+export const DECODE_SAMPLE_RATE = 16000;
+
+export interface AudioChunk {
+  index: number;
+  // Seconds from the start of the file
+  start: number;
+  end: number;
+  samples: Float32Array;
+}
+
+export interface ChunkOptions {
+  chunkSeconds?: number;
+  overlapSeconds?: number;
+  // How far back from the nominal boundary to look for a quiet cut point
+  searchSeconds?: number;
+}
+
+export async function decodeAudioFile(blob: Blob): Promise<{ samples: Float32Array, sampleRate: number }> {
+  const ctx = new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE);
+  const buffer = await ctx.decodeAudioData(await blob.arrayBuffer());
+
+  if (buffer.numberOfChannels === 1) {
+    return { samples: buffer.getChannelData(0), sampleRate: buffer.sampleRate };
+  }
+
+  // Downmix to mono
+  const samples = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const channel = buffer.getChannelData(c);
+    for (let i = 0; i < channel.length; i++) samples[i] += channel[i] / buffer.numberOfChannels;
+  }
+  return { samples, sampleRate: buffer.sampleRate };
+}
+
+// Returns the sample index at the centre of the quietest 100 ms window in [from, to)
+function findQuietestPoint(samples: Float32Array, sampleRate: number, from: number, to: number): number {
+  const windowSize = Math.floor(sampleRate * 0.1);
+  let best = to;
+  let bestEnergy = Infinity;
+
+  for (let start = Math.max(0, from); start + windowSize <= to; start += Math.floor(windowSize / 2)) {
+    let energy = 0;
+    for (let i = start; i < start + windowSize; i++) energy += samples[i] * samples[i];
+    if (energy < bestEnergy) {
+      bestEnergy = energy;
+      best = start + Math.floor(windowSize / 2);
+    }
+  }
+  return best;
+}
+
+// Splits audio into overlapping chunks. Each boundary is moved back to the
+// quietest point within `searchSeconds` so cuts tend to land between words, and
+// the next chunk starts `overlapSeconds` before that cut so words that straddle
+// it are heard in full by at least one chunk.
+export function splitIntoChunks(samples: Float32Array, sampleRate: number, options: ChunkOptions = {}): AudioChunk[] {
+  const { chunkSeconds = 300, overlapSeconds = 5, searchSeconds = 10 } = options;
+  const chunkLength = Math.floor(chunkSeconds * sampleRate);
+  const overlap = Math.floor(overlapSeconds * sampleRate);
+  const search = Math.floor(searchSeconds * sampleRate);
+
+  const chunks: AudioChunk[] = [];
+  let start = 0;
+
+  while (start < samples.length) {
+    let end = Math.min(samples.length, start + chunkLength);
+    if (end < samples.length) {
+      end = findQuietestPoint(samples, sampleRate, end - search, end);
+    }
+
+    chunks.push({
+      index: chunks.length,
+      start: start / sampleRate,
+      end: end / sampleRate,
+      samples: samples.subarray(start, end)
+    });
+
+    if (end >= samples.length) break;
+    start = Math.max(start + 1, end - overlap);
+  }
+
+  return chunks;
+}
+
+export function chunkToWav(chunk: AudioChunk, sampleRate: number): Blob {
+  return encodeWav(chunk.samples, sampleRate);
+}
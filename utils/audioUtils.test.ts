@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { StreamingResampler } from './audioUtils';
+
+const OUTPUT_RATE = 16000;
+
+function sine(frequency: number, rate: number, seconds: number): Float32Array {
+  const samples = new Float32Array(Math.round(rate * seconds));
+  for (let i = 0; i < samples.length; i++) samples[i] = Math.sin(2 * Math.PI * frequency * i / rate);
+  return samples;
+}
+
+// Skips the filter's start-up so only the settled signal is measured
+function rms(samples: Float32Array, skip = 200): number {
+  const settled = samples.subarray(skip);
+  return Math.sqrt(settled.reduce((sum, x) => sum + x * x, 0) / settled.length);
+}
+
+describe('StreamingResampler', () => {
+  it('keeps a 1 kHz tone at full amplitude', () => {
+    for (const rate of [44100, 48000]) {
+      const output = new StreamingResampler(rate, OUTPUT_RATE).process(sine(1000, rate, 1));
+      expect(rms(output)).toBeCloseTo(Math.SQRT1_2, 2);
+    }
+  });
+
+  it('removes tones above the output Nyquist frequency', () => {
+    for (const frequency of [9000, 12000, 20000]) {
+      const output = new StreamingResampler(48000, OUTPUT_RATE).process(sine(frequency, 48000, 1));
+      // At least 40 dB down from the 0.707 a full-scale sine would give
+      expect(rms(output)).toBeLessThan(0.007);
+    }
+  });
+
+  it.each([44100, 48000, 8000])('produces output at the ratio of the rates from %i Hz', (rate) => {
+    const resampler = new StreamingResampler(rate, OUTPUT_RATE);
+    let produced = 0;
+    // About two seconds in 128-sample worklet blocks
+    const blocks = Math.ceil((rate * 2) / 128);
+    for (let i = 0; i < blocks; i++) produced += resampler.process(new Float32Array(128)).length;
+    const expected = Math.floor(blocks * 128 * OUTPUT_RATE / rate);
+    // Only the filter's look-ahead is held back
+    expect(produced).toBeLessThanOrEqual(expected);
+    expect(expected - produced).toBeLessThan(100);
+  });
+
+  it('passes audio through untouched when the rates match', () => {
+    const input = sine(440, OUTPUT_RATE, 0.1);
+    expect(new StreamingResampler(OUTPUT_RATE, OUTPUT_RATE).process(input)).toEqual(input);
+  });
+
+  it('gives the same output whether the input comes in one buffer or many', () => {
+    const input = sine(1000, 44100, 0.5);
+    const whole = new StreamingResampler(44100, OUTPUT_RATE).process(input);
+
+    const split = new StreamingResampler(44100, OUTPUT_RATE);
+    const pieces: number[] = [];
+    // Uneven sizes, including one smaller than the filter and one larger than its initial buffer
+    const sizes = [1, 7, 128, 333, 5000, 64];
+    for (let offset = 0, i = 0; offset < input.length; i++) {
+      const size = sizes[i % sizes.length];
+      pieces.push(...split.process(input.subarray(offset, offset + size)));
+      offset += size;
+    }
+
+    expect(pieces.length).toBe(whole.length);
+    const maxDifference = pieces.reduce((max, x, i) => Math.max(max, Math.abs(x - whole[i])), 0);
+    expect(maxDifference).toBeLessThan(1e-6);
+  });
+});
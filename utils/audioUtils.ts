@@ -18,13 +18,14 @@ export function int16ToFloat32(int16: Int16Array): Float32Array {
   return float32;
 }
 
-// Base64 encoding for array buffer
+// Base64 encoding for array buffer. Converts in blocks rather than per byte
+// since this runs on the main thread for every captured audio frame.
 export function arrayBufferToBase64(buffer: ArrayBuffer): string {
-  let binary = '';
   const bytes = new Uint8Array(buffer);
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
+  const blockSize = 0x8000;
+  let binary = '';
+  for (let i = 0; i < bytes.byteLength; i += blockSize) {
+    binary += String.fromCharCode.apply(null, bytes.subarray(i, i + blockSize) as unknown as number[]);
   }
   return btoa(binary);
 }
@@ -39,3 +40,117 @@ export function base64ToArrayBuffer(base64: string): ArrayBuffer {
   }
   return bytes.buffer;
 }
+
+// Read a Blob as base64 (without the data: URL prefix)
+export function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Encode mono Float32 samples as a 16-bit PCM WAV file
+export function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+  const pcm = float32ToInt16(samples);
+  const header = new DataView(new ArrayBuffer(44));
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) header.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + pcm.byteLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true); // fmt chunk size
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, 1, true); // mono
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true); // byte rate
+  header.setUint16(32, 2, true); // block align
+  header.setUint16(34, 16, true); // bits per sample
+  writeString(36, 'data');
+  header.setUint32(40, pcm.byteLength, true);
+
+  return new Blob([header.buffer, pcm.buffer as ArrayBuffer], { type: 'audio/wav' });
+}
+
+// Streaming sample-rate converter (windowed-sinc interpolation). Downsampling
+// lowers the filter cutoff to the output Nyquist rate so content above it is
+// removed rather than aliased. History and the fractional read position carry
+// over between calls, so arbitrary buffer sizes join seamlessly. Output lags
+// the input by the filter half-width.
+//
+// The class is also injected into the capture AudioWorklet via toString(), so
+// it must stay self-contained: no imports, helpers or outer-scope references.
+export class StreamingResampler {
+  private ratio: number;
+  private cutoff: number;
+  private halfWidth: number;
+  private pending: Float32Array;
+  private length: number;
+  private position: number;
+
+  constructor(inputRate: number, outputRate: number, zeroCrossings = 16) {
+    // Input samples advanced per output sample
+    this.ratio = inputRate / outputRate;
+    // Normalized to the input Nyquist rate, with a little headroom for the filter's transition band
+    this.cutoff = Math.min(1, outputRate / inputRate) * 0.95;
+    this.halfWidth = Math.ceil(zeroCrossings / this.cutoff);
+    this.pending = new Float32Array(4096 + 2 * this.halfWidth);
+    // Zero history so the first output sample lines up with the first input sample
+    this.length = this.halfWidth;
+    this.position = this.halfWidth;
+  }
+
+  process(input: Float32Array): Float32Array {
+    if (this.ratio === 1) return input.slice();
+
+    if (this.length + input.length > this.pending.length) {
+      const grown = new Float32Array((this.length + input.length) * 2);
+      grown.set(this.pending.subarray(0, this.length));
+      this.pending = grown;
+    }
+    this.pending.set(input, this.length);
+    this.length += input.length;
+
+    const available = Math.max(0, Math.floor((this.length - this.halfWidth - this.position) / this.ratio) + 1);
+    const output = new Float32Array(available);
+    let produced = 0;
+
+    while (produced < available && Math.floor(this.position) + this.halfWidth < this.length) {
+      const center = Math.floor(this.position);
+      const first = center - this.halfWidth + 1;
+      let sum = 0;
+      let weightSum = 0;
+
+      for (let i = first; i <= center + this.halfWidth; i++) {
+        const x = i - this.position;
+        if (Math.abs(x) >= this.halfWidth) continue;
+        const arg = Math.PI * this.cutoff * x;
+        const sinc = x === 0 ? 1 : Math.sin(arg) / arg;
+        // Blackman window over the kernel span
+        const phase = Math.PI * x / this.halfWidth;
+        const window = 0.42 + 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+        const weight = sinc * window;
+        sum += this.pending[i] * weight;
+        weightSum += weight;
+      }
+
+      // Normalizing by the weight sum keeps DC gain at exactly 1 for every fractional phase
+      output[produced++] = weightSum !== 0 ? sum / weightSum : 0;
+      this.position += this.ratio;
+    }
+
+    // Drop input that no future output sample can reach
+    const consumed = Math.max(0, Math.floor(this.position) - this.halfWidth + 1);
+    if (consumed > 0) {
+      this.pending.copyWithin(0, consumed, this.length);
+      this.length -= consumed;
+      this.position -= consumed;
+    }
+
+    return produced === available ? output : output.subarray(0, produced);
+  }
+}
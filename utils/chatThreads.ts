@@ -0,0 +1,137 @@
+import { Message, TranscriptMode } from '../types';
+
+// Fast Chat conversations, kept in localStorage so they survive switching tabs
+// and reloading. Each thread carries its own history, system prompt and model,
+// plus any saved transcripts it answers questions about.
+
+const THREADS_KEY = 'eburon.chatThreads';
+const ACTIVE_KEY = 'eburon.activeChatThread';
+const DEFAULT_TITLE = 'New chat';
+const TITLE_LENGTH = 40;
+
+export const CHAT_MODELS = [
+  { id: 'gemini-flash-lite-latest', label: 'Flash Lite' },
+  { id: 'gemini-flash-latest', label: 'Flash' },
+  { id: 'gemini-2.5-pro', label: 'Pro' }
+];
+
+export const DEFAULT_SYSTEM_PROMPT = 'You are Eburon. Answer concisely and extremely fast.';
+
+// A saved transcript session the thread is grounded on; its turns are loaded when asked about
+export interface TranscriptAttachment {
+  sessionId: string;
+  mode: TranscriptMode;
+  startedAt: Date;
+  title: string;
+}
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  systemPrompt: string;
+  model: string;
+  messages: Message[];
+  attachments: TranscriptAttachment[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Dates are kept as ISO strings
+type StoredMessage = Omit<Message, 'timestamp'> & { timestamp: string };
+type StoredAttachment = Omit<TranscriptAttachment, 'startedAt'> & { startedAt: string };
+type StoredThread = Omit<ChatThread, 'messages' | 'attachments' | 'createdAt' | 'updatedAt'> & {
+  messages: StoredMessage[];
+  // Missing on threads saved before attachments existed
+  attachments?: StoredAttachment[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+const MODE_NAMES: Record<TranscriptMode, string> = {
+  live: 'Live',
+  batch: 'Transcribe',
+  chat: 'Fast Chat'
+};
+
+export function attachmentFor(session: { id: string, mode: TranscriptMode, startedAt: Date }): TranscriptAttachment {
+  return {
+    sessionId: session.id,
+    mode: session.mode,
+    startedAt: session.startedAt,
+    title: `${MODE_NAMES[session.mode]} ${session.startedAt.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}`
+  };
+}
+
+export function modelLabel(model: string): string {
+  return CHAT_MODELS.find(m => m.id === model)?.label ?? model;
+}
+
+export function createThread(): ChatThread {
+  const now = new Date();
+  return {
+    id: crypto.randomUUID(),
+    title: DEFAULT_TITLE,
+    systemPrompt: DEFAULT_SYSTEM_PROMPT,
+    model: CHAT_MODELS[0].id,
+    messages: [],
+    attachments: [],
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+// Untitled threads are named after their first message
+export function titleFrom(thread: ChatThread, text: string): string {
+  if (thread.title !== DEFAULT_TITLE) return thread.title;
+  const line = text.trim().replace(/\s+/g, ' ');
+  return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH - 1)}…` : line || DEFAULT_TITLE;
+}
+
+export function loadThreads(): ChatThread[] {
+  try {
+    const stored = localStorage.getItem(THREADS_KEY);
+    if (!stored) return [];
+    return (JSON.parse(stored) as StoredThread[]).map(thread => ({
+      ...thread,
+      messages: thread.messages.map(m => ({ ...m, timestamp: new Date(m.timestamp) })),
+      attachments: (thread.attachments ?? []).map(a => ({ ...a, startedAt: new Date(a.startedAt) })),
+      createdAt: new Date(thread.createdAt),
+      updatedAt: new Date(thread.updatedAt)
+    }));
+  } catch (e) {
+    console.warn('Could not load chat threads', e);
+    return [];
+  }
+}
+
+export function saveThreads(threads: ChatThread[]) {
+  try {
+    localStorage.setItem(THREADS_KEY, JSON.stringify(threads));
+  } catch (e) {
+    console.warn('Could not persist chat threads', e);
+  }
+}
+
+export function loadActiveThreadId(): string | null {
+  try {
+    return localStorage.getItem(ACTIVE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function saveActiveThreadId(id: string) {
+  try {
+    localStorage.setItem(ACTIVE_KEY, id);
+  } catch (e) {
+    console.warn('Could not persist the active chat thread', e);
+  }
+}
+
+// Starts a thread about `attachment` and makes it the one Fast Chat opens on
+export function openThreadAbout(attachment: TranscriptAttachment): ChatThread {
+  const thread = { ...createThread(), title: `About ${attachment.title}`, attachments: [attachment] };
+  saveThreads([thread, ...loadThreads()]);
+  saveActiveThreadId(thread.id);
+  return thread;
+}
@@ -0,0 +1,152 @@
+import { TranscriptSegment } from '../types';
+import { decodeAudioFile, splitIntoChunks, chunkToWav, AudioChunk } from './audioChunking';
+import { stitchChunks, ChunkTranscript } from './transcriptStitching';
+import { FileTranscription, TranscriptionProvider } from './transcriptionProvider';
+
+const CHUNK_CONCURRENCY = 3;
+const CHUNK_ATTEMPTS = 3;
+const RETRY_BASE_MS = 1000;
+
+export type ChunkStatus = 'pending' | 'running' | 'retrying' | 'done' | 'failed';
+
+export interface ChunkProgress {
+  index: number;
+  start: number;
+  end: number;
+  status: ChunkStatus;
+  attempts: number;
+}
+
+// Accepts seconds as numbers or "mm:ss(.ms)" / "hh:mm:ss" strings
+function parseTime(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) && value >= 0 ? value : null;
+  if (typeof value !== 'string') return null;
+  const parts = value.trim().split(':').map(Number);
+  if (parts.length === 0 || parts.length > 3 || parts.some(p => !Number.isFinite(p) || p < 0)) return null;
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+// Validates the model's JSON. Unusable entries are dropped; if nothing usable
+// is left (or the JSON doesn't parse) the caller falls back to plain text.
+export function parseSegments(raw: string): TranscriptSegment[] | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch {
+    return null;
+  }
+  return validateSegments(data);
+}
+
+// Same checks for segments that arrive already parsed
+export function validateSegments(data: unknown): TranscriptSegment[] | null {
+  if (!Array.isArray(data)) return null;
+
+  const segments: TranscriptSegment[] = [];
+  for (const item of data) {
+    if (!item || typeof item !== 'object') continue;
+    const text = typeof item.text === 'string' ? item.text.trim() : '';
+    const start = parseTime(item.start);
+    const end = parseTime(item.end);
+    if (!text || start === null) continue;
+    segments.push({
+      start,
+      end: end !== null && end >= start ? end : start,
+      speaker: typeof item.speaker === 'string' && item.speaker.trim() ? item.speaker.trim() : 'Speaker 1',
+      text
+    });
+  }
+
+  return segments.length > 0 ? segments.sort((a, b) => a.start - b.start) : null;
+}
+
+export function segmentsToText(segments: TranscriptSegment[]): string {
+  return segments.map(segment => `${segment.speaker}: ${segment.text}`).join('\n');
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function transcribeChunk(provider: TranscriptionProvider, chunk: AudioChunk, sampleRate: number, report: (status: ChunkStatus, attempts: number) => void): Promise<ChunkTranscript> {
+  const wav = chunkToWav(chunk, sampleRate);
+
+  for (let attempt = 1; attempt <= CHUNK_ATTEMPTS; attempt++) {
+    report(attempt === 1 ? 'running' : 'retrying', attempt);
+    try {
+      const result = await provider.transcribe(wav);
+      report('done', attempt);
+      if (result.segments) {
+        return {
+          start: chunk.start,
+          end: chunk.end,
+          timed: true,
+          segments: result.segments.map(segment => ({
+            ...segment,
+            start: chunk.start + segment.start,
+            end: Math.min(chunk.end, chunk.start + segment.end)
+          }))
+        };
+      }
+      return {
+        start: chunk.start,
+        end: chunk.end,
+        timed: false,
+        segments: [{ start: chunk.start, end: chunk.end, speaker: 'Speaker 1', text: result.text }]
+      };
+    } catch (e) {
+      console.warn(`Chunk ${chunk.index + 1} attempt ${attempt} failed`, e);
+      if (attempt < CHUNK_ATTEMPTS) await delay(RETRY_BASE_MS * 2 ** (attempt - 1));
+    }
+  }
+
+  report('failed', CHUNK_ATTEMPTS);
+  return {
+    start: chunk.start,
+    end: chunk.end,
+    timed: true,
+    segments: [{ start: chunk.start, end: chunk.end, speaker: 'System', text: '[This section could not be transcribed]' }]
+  };
+}
+
+// Long recordings are decoded, split into overlapping chunks and transcribed
+// a few at a time, then stitched back into one timeline. Formats the browser
+// can't decode are sent whole, as before.
+export async function transcribeAudioFile(blob: Blob, provider: TranscriptionProvider, onProgress?: (chunks: ChunkProgress[]) => void): Promise<FileTranscription> {
+  let decoded: { samples: Float32Array, sampleRate: number };
+  try {
+    decoded = await decodeAudioFile(blob);
+  } catch (e) {
+    console.warn('Could not decode audio locally, sending the file as is.', e);
+    return provider.transcribe(blob);
+  }
+
+  const chunks = splitIntoChunks(decoded.samples, decoded.sampleRate);
+  if (chunks.length === 1) return provider.transcribe(blob);
+
+  const progress: ChunkProgress[] = chunks.map(chunk => ({
+    index: chunk.index,
+    start: chunk.start,
+    end: chunk.end,
+    status: 'pending',
+    attempts: 0
+  }));
+  onProgress?.([...progress]);
+
+  const results: ChunkTranscript[] = new Array(chunks.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < chunks.length) {
+      const chunk = chunks[next++];
+      results[chunk.index] = await transcribeChunk(provider, chunk, decoded.sampleRate, (status, attempts) => {
+        progress[chunk.index] = { ...progress[chunk.index], status, attempts };
+        onProgress?.([...progress]);
+      });
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(CHUNK_CONCURRENCY, chunks.length) }, worker));
+
+  const segments = stitchChunks(results);
+  if (results.every(result => !result.timed)) {
+    return { segments: null, text: segments.map(segment => segment.text).join('\n') };
+  }
+  return { segments, text: segmentsToText(segments) };
+}
@@ -0,0 +1,121 @@
+import { FixtureEvent, FixtureMessage, LiveFixture } from '../mockLiveConnection';
+
+// Live sessions in the shape the API streams them: transcription arrives a
+// word or two at a time, the model's output opens with its [LANG:...] tag and
+// every turn ends with turnComplete. Each fixture also covers the awkward
+// cases turn assembly has to survive (missing or malformed tags, barge-in,
+// input and output in one message, a dropped link).
+
+const MS_PER_WORD = 220;
+const REPLY_DELAY_MS = 600;
+
+const at = (time: number, message: FixtureMessage): FixtureEvent => ({ at: time, message });
+
+// Streams `text` as transcription chunks of up to two words, starting at `from`
+function transcript(kind: 'inputTranscription' | 'outputTranscription', text: string, from: number): FixtureEvent[] {
+  const words = text.split(/(?<=\s)/);
+  const events: FixtureEvent[] = [];
+  for (let i = 0; i < words.length; i += 2) {
+    events.push(at(from + (i / 2) * MS_PER_WORD * 2, { serverContent: { [kind]: { text: words.slice(i, i + 2).join('') } } }));
+  }
+  return events;
+}
+
+const duration = (text: string) => Math.ceil(text.split(/\s+/).length / 2) * MS_PER_WORD * 2;
+
+// One exchange: what the user said, then the model's reply, then turnComplete
+function exchange(from: number, said: string, reply: string): { events: FixtureEvent[], end: number } {
+  const replyAt = from + duration(said) + REPLY_DELAY_MS;
+  const end = replyAt + duration(reply);
+  return {
+    events: [
+      ...transcript('inputTranscription', said, from),
+      ...transcript('outputTranscription', reply, replyAt),
+      at(end, { serverContent: { turnComplete: true } })
+    ],
+    end: end + 1500
+  };
+}
+
+function conversation(name: string, description: string, turns: [string, string][], extra: (end: number) => FixtureEvent[] = () => []): LiveFixture {
+  const events: FixtureEvent[] = [at(0, { setupComplete: {} })];
+  let cursor = 800;
+  turns.forEach(([said, reply], i) => {
+    const turn = exchange(cursor, said, reply);
+    events.push(...turn.events, at(turn.end - 1000, { sessionResumptionUpdate: { resumable: true, newHandle: `${name}-handle-${i + 1}` } }));
+    cursor = turn.end;
+  });
+  events.push(...extra(cursor));
+  return { name, description, events };
+}
+
+export const ASSISTANT_FIXTURE = conversation(
+  'assistant',
+  'Assistant mode in English and Spanish, with a malformed tag, a missing tag, a barge-in and a dropped link',
+  [
+    ['Hi EBURON, can you hear me clearly? ', '[LANG:English] Loud and clear. How can I help you today? '],
+    ['¿Puedes responder en español, por favor? ', '[LANG: es] Claro que sí. Desde ahora te respondo en español. '],
+    ['Perfecto, ¿qué hora es en Madrid? ', '[lang:Spanish Son las tres de la tarde en Madrid. '],
+    ['Gracias. ', 'De nada, aquí estoy si necesitas algo más. ']
+  ],
+  end => {
+    const interruptAt = end + duration('Hold on one second. ') + REPLY_DELAY_MS + 900;
+    const laterAt = interruptAt + 4500;
+    return [
+      // Barge-in: the user talks over a long answer
+      ...transcript('inputTranscription', 'Hold on one second. ', end),
+      // The server stops streaming the answer where it was cut off
+      ...transcript('outputTranscription', '[LANG:English] Sure. While you do that, let me walk you through everything on the agenda for ', end + duration('Hold on one second. ') + REPLY_DELAY_MS)
+        .filter(event => event.at < interruptAt),
+      at(interruptAt, { serverContent: { interrupted: true } }),
+      ...transcript('inputTranscription', 'Actually, just the first item. ', interruptAt + 200),
+      at(interruptAt + 1800, { serverContent: { turnComplete: true } }),
+      // The link drops and is resumed
+      { at: interruptAt + 2500, drop: { durationMs: 2000, resumed: true } },
+      // Input and output in the same message
+      at(laterAt, { serverContent: { inputTranscription: { text: 'Thanks. ' }, outputTranscription: { text: '[LANG:English] You are welcome. ' } } }),
+      at(laterAt + 400, { serverContent: { turnComplete: true } })
+    ];
+  }
+);
+
+export const DIARIZATION_FIXTURE = conversation(
+  'diarization',
+  'Two people talking, labelled by the model as [Speaker 1] and [Speaker 2]',
+  [
+    ['Shall we start with the budget? I think we are over by about ten percent. ', '[LANG:English] [Speaker 1]: Shall we start with the budget? [Speaker 2]: I think we are over by about ten percent. '],
+    ['Then we cut the travel line. Agreed, let us do that. ', '[LANG:English] [Speaker 1]: Then we cut the travel line. [Speaker 2]: Agreed, let us do that. '],
+    ['Who sends the update? I will, by Friday. ', '[LANG:English] [Speaker 1]: Who sends the update? [Speaker 2]: I will, by Friday. ']
+  ]
+);
+
+export const TRANSLATOR_FIXTURE = conversation(
+  'translator',
+  'Translator mode into English, including a turn without a tag that falls back to script detection',
+  [
+    ['Buenos días a todos, empezamos en cinco minutos. ', '[LANG:Spanish] Good morning everyone, we start in five minutes. '],
+    ['El informe está casi terminado. ', '[LANG:Spanish] The report is almost finished. '],
+    ['会議室は三階です。 ', 'The meeting room is on the third floor. ']
+  ]
+);
+
+// Transcription-only sessions never reply, so only input is streamed
+export const TRANSCRIBER_FIXTURE: LiveFixture = (() => {
+  const lines = [
+    'Welcome to the weekly sync. ',
+    'First, the release is on track for next Tuesday. ',
+    'Second, we still need a volunteer for the on-call rotation. ',
+    'Let us pick that up after lunch. '
+  ];
+  const events: FixtureEvent[] = [at(0, { setupComplete: {} })];
+  let cursor = 800;
+  lines.forEach(line => {
+    events.push(...transcript('inputTranscription', line, cursor));
+    cursor += duration(line);
+    events.push(at(cursor, { serverContent: { turnComplete: true } }));
+    cursor += 1500;
+  });
+  return { name: 'transcriber', description: 'A short meeting, one sentence per turn', events };
+})();
+
+export const LIVE_FIXTURES: LiveFixture[] = [ASSISTANT_FIXTURE, DIARIZATION_FIXTURE, TRANSLATOR_FIXTURE, TRANSCRIBER_FIXTURE];
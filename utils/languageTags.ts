@@ -0,0 +1,90 @@
+import { Message } from '../types';
+import { LANGUAGES } from './languages';
+
+// The Live prompt asks the model to open each response with "[LANG:Name]".
+// Models don't always comply exactly, so this accepts codes ("es"), other
+// spellings ("language= spanish", "(LANG: Spanish)") and an unclosed bracket,
+// and falls back to the writing system when there is no usable tag.
+
+const TAG_START = /^\s*[[(]?\s*lang(?:uage)?\s*[:=]\s*/i;
+// Well-formed tags anywhere else in the text are stripped too
+const INLINE_TAG = /[[(]\s*lang(?:uage)?\s*[:=][^\])\n]*[\])]\s*/gi;
+const MAX_TAG_LENGTH = 40;
+
+const stripTags = (text: string) => text.replace(INLINE_TAG, '').trim();
+
+const LANGUAGE_CODES: Record<string, string> = {
+  en: 'English', es: 'Spanish', fr: 'French', de: 'German', it: 'Italian', pt: 'Portuguese',
+  nl: 'Dutch', pl: 'Polish', ru: 'Russian', tr: 'Turkish', ar: 'Arabic', hi: 'Hindi',
+  id: 'Indonesian', tl: 'Tagalog', fil: 'Tagalog', vi: 'Vietnamese', th: 'Thai',
+  zh: 'Chinese (Mandarin)', ja: 'Japanese', ko: 'Korean'
+};
+
+// Longest first so "en" doesn't win over "English"
+const KNOWN_NAMES = [...LANGUAGES, ...Object.keys(LANGUAGE_CODES)].sort((a, b) => b.length - a.length);
+
+// Scripts that identify a language on their own. Latin text could be anything, so it has no entry.
+const SCRIPTS: [RegExp, string][] = [
+  [/[\u3040-\u30ff]/, 'Japanese'],
+  [/[\uac00-\ud7af]/, 'Korean'],
+  [/[\u4e00-\u9fff]/, 'Chinese (Mandarin)'],
+  [/[\u0600-\u06ff]/, 'Arabic'],
+  [/[\u0400-\u04ff]/, 'Russian'],
+  [/[\u0900-\u097f]/, 'Hindi'],
+  [/[\u0e00-\u0e7f]/, 'Thai']
+];
+
+export function normalizeLanguage(raw: string): string | null {
+  const name = raw.trim().replace(/[.,;:]+$/, '');
+  if (!name || /^(unknown|none|n\/a|auto)$/i.test(name)) return null;
+
+  const lower = name.toLowerCase();
+  const code = LANGUAGE_CODES[lower] ?? LANGUAGE_CODES[lower.split(/[-_]/)[0]];
+  if (code && name.length <= 5) return code;
+
+  const known = LANGUAGES.find(language => language.toLowerCase() === lower || language.toLowerCase().startsWith(`${lower} `));
+  if (known) return known;
+  return name.replace(/\p{L}+/gu, word => word[0].toUpperCase() + word.slice(1).toLowerCase());
+}
+
+// Splits the leading language tag off model output. `language` is null when
+// there was no tag or it named nothing usable; `text` never contains the tag.
+export function parseLanguageTag(output: string): { language: string | null, text: string } {
+  const start = output.match(TAG_START);
+  if (!start) return { language: null, text: stripTags(output) };
+
+  const rest = output.slice(start[0].length);
+
+  // A known name or code, closed or not ("[LANG:Tagalog Kumusta", "[LANG: Chinese (Mandarin)]")
+  const lower = rest.toLowerCase();
+  const known = KNOWN_NAMES.find(name => lower.startsWith(name.toLowerCase()) && !/[\p{L}_-]/u.test(rest.charAt(name.length)));
+  if (known) {
+    return { language: normalizeLanguage(known), text: stripTags(rest.slice(known.length).replace(/^\s*[\])]?[\s:-]*/, '')) };
+  }
+
+  // Any other short name inside brackets; a bracket further on belongs to the text itself
+  const close = rest.search(/[\])]/);
+  const tagged = close === -1 ? '' : rest.slice(0, close);
+  if (close !== -1 && close <= MAX_TAG_LENGTH && !tagged.includes('\n') && tagged.trim().split(/\s+/).length <= 3) {
+    return { language: normalizeLanguage(tagged), text: stripTags(rest.slice(close + 1)) };
+  }
+
+  // Unclosed and unknown: the first word is the best guess
+  const name = rest.match(/^[\p{L}-]+/u)?.[0] ?? '';
+  return { language: normalizeLanguage(name), text: stripTags(rest.slice(name.length).replace(/^[\s:-]+/, '')) };
+}
+
+export function detectScriptLanguage(text: string): string | null {
+  return SCRIPTS.find(([script]) => script.test(text))?.[1] ?? null;
+}
+
+// Languages present in a set of turns, in order of first appearance
+export function collectLanguages(messages: Message[]): string[] {
+  return [...new Set(messages.map(msg => msg.language).filter((language): language is string => Boolean(language)))];
+}
+
+// Null shows everything; system messages are kept so gaps stay visible
+export function filterByLanguage(messages: Message[], language: string | null): Message[] {
+  if (!language) return messages;
+  return messages.filter(msg => msg.role === 'system' || msg.language === language);
+}
@@ -0,0 +1,25 @@
+// Languages offered in Translator Mode. Names, not codes, because they go
+// straight into the model prompt and into the stored transcript.
+export const AUTO_DETECT = 'auto';
+
+export const LANGUAGES = [
+  'English',
+  'Spanish',
+  'French',
+  'German',
+  'Italian',
+  'Portuguese',
+  'Dutch',
+  'Polish',
+  'Russian',
+  'Turkish',
+  'Arabic',
+  'Hindi',
+  'Indonesian',
+  'Tagalog',
+  'Vietnamese',
+  'Thai',
+  'Chinese (Mandarin)',
+  'Japanese',
+  'Korean'
+];
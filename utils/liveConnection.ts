@@ -0,0 +1,190 @@
+import { GoogleGenAI, LiveConnectConfig, LiveServerMessage, LiveSendRealtimeInputParameters, Session } from '@google/genai';
+
+// Live API link that survives drops. The socket is reopened with exponential
+// backoff, resuming the server-side session from the latest resumption handle
+// when there is one, and a go-away notice triggers the reconnect before the
+// server cuts the link. Realtime input sent while the link is down is buffered
+// and replayed in order once it is back; each outage is reported as a gap so
+// callers can mark it in the transcript.
+
+export type LinkState = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface LinkGap {
+  from: Date;
+  to: Date;
+  // False when no handle was available and a fresh session (without earlier context) was opened
+  resumed: boolean;
+  // Buffered inputs sent after reconnecting, and inputs lost because the buffer was full
+  replayed: number;
+  dropped: number;
+}
+
+export interface LiveConnection {
+  state: LinkState;
+  // First successful open only; later ones are reported through ongap
+  onopen: (() => void) | null;
+  onmessage: ((msg: LiveServerMessage) => void) | null;
+  onstatechange: ((state: LinkState) => void) | null;
+  ongap: ((gap: LinkGap) => void) | null;
+  // The link gave up (initial connect failed or retries ran out). Not called after close().
+  onclose: ((error: string) => void) | null;
+  send(input: LiveSendRealtimeInputParameters): void;
+  close(): void;
+}
+
+const INITIAL_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30000;
+const MAX_RETRIES = 8;
+// About a minute of 256 ms audio frames
+const MAX_BUFFERED_INPUTS = 240;
+
+const isAudio = (input: LiveSendRealtimeInputParameters) => Boolean(input.media || input.audio);
+
+export function describeGap(gap: LinkGap): string {
+  const seconds = Math.max(1, Math.round((gap.to.getTime() - gap.from.getTime()) / 1000));
+  const parts = [`Link dropped for ${seconds}s, ${gap.resumed ? 'session resumed' : 'new session started'}`];
+  if (gap.replayed > 0) parts.push(`${gap.replayed} buffered chunks replayed`);
+  if (gap.dropped > 0) parts.push(`${gap.dropped} chunks lost`);
+  return parts.join('; ') + '.';
+}
+
+export function createLiveConnection(ai: GoogleGenAI, params: { model: string, config: LiveConnectConfig }): LiveConnection {
+  let session: Session | null = null;
+  // Bumped for every socket so late callbacks from an abandoned one are ignored
+  let generation = 0;
+  let handle: string | null = null;
+  let retries = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let hasOpened = false;
+  let buffer: LiveSendRealtimeInputParameters[] = [];
+  let dropped = 0;
+  let downSince: Date | null = null;
+
+  const setState = (state: LinkState) => {
+    if (link.state === state) return;
+    link.state = state;
+    link.onstatechange?.(state);
+  };
+
+  const abandonSocket = () => {
+    generation++;
+    if (session) {
+      try { session.close(); } catch (e) { console.warn('Live session close failed', e); }
+      session = null;
+    }
+  };
+
+  const handleDrop = (socket: number, reason: string, immediate = false) => {
+    if (socket !== generation || link.state === 'closed') return;
+    abandonSocket();
+    downSince = downSince ?? new Date();
+
+    // A link that never opened is a configuration problem, not a network blip
+    if (!hasOpened || retries >= MAX_RETRIES) {
+      setState('closed');
+      buffer = [];
+      link.onclose?.(reason);
+      return;
+    }
+
+    setState('reconnecting');
+    const backoff = Math.min(MAX_RETRY_MS, INITIAL_RETRY_MS * 2 ** retries);
+    retries++;
+    retryTimer = setTimeout(connect, immediate ? 0 : backoff * (0.8 + Math.random() * 0.4));
+  };
+
+  const connect = () => {
+    retryTimer = null;
+    const socket = ++generation;
+    const resuming = handle !== null;
+
+    ai.live.connect({
+      model: params.model,
+      config: {
+        ...params.config,
+        sessionResumption: resuming ? { handle: handle! } : {},
+        // Lets sessions run past the server's context limit on long meetings
+        contextWindowCompression: { slidingWindow: {} }
+      },
+      callbacks: {
+        onmessage: (msg: LiveServerMessage) => {
+          if (socket !== generation) return;
+          const update = msg.sessionResumptionUpdate;
+          if (update?.resumable && update.newHandle) handle = update.newHandle;
+          link.onmessage?.(msg);
+          if (msg.goAway) {
+            console.warn('Live link going away', msg.goAway.timeLeft);
+            handleDrop(socket, 'Server closed the session.', true);
+          }
+        },
+        onerror: (e: ErrorEvent) => {
+          if (socket === generation) console.error('Live link error', e);
+        },
+        onclose: (e: CloseEvent) => handleDrop(socket, e.reason || 'Connection closed.')
+      }
+    }).then(opened => {
+      if (socket !== generation) {
+        opened.close();
+        return;
+      }
+      session = opened;
+      retries = 0;
+
+      const replayed = buffer.length;
+      const pending = buffer;
+      buffer = [];
+      pending.forEach(input => opened.sendRealtimeInput(input));
+      setState('open');
+
+      if (!hasOpened) {
+        hasOpened = true;
+        link.onopen?.();
+      } else if (downSince) {
+        link.ongap?.({ from: downSince, to: new Date(), resumed: resuming, replayed, dropped });
+      }
+      downSince = null;
+      dropped = 0;
+    }).catch((e: any) => handleDrop(socket, e?.message || 'Could not connect.'));
+  };
+
+  const link: LiveConnection = {
+    state: 'connecting',
+    onopen: null,
+    onmessage: null,
+    onstatechange: null,
+    ongap: null,
+    onclose: null,
+
+    send(input) {
+      if (link.state === 'closed') return;
+      if (link.state === 'open' && session) {
+        try {
+          session.sendRealtimeInput(input);
+          return;
+        } catch (e) {
+          // Socket died under us; onclose will follow and replay this
+          console.warn('Live send failed, buffering', e);
+        }
+      }
+      buffer.push(input);
+      if (buffer.length > MAX_BUFFERED_INPUTS) {
+        // Shed the oldest audio, keeping turn signals so activity start/end stay paired
+        const oldest = buffer.findIndex(isAudio);
+        buffer.splice(oldest === -1 ? 0 : oldest, 1);
+        dropped++;
+      }
+    },
+
+    close() {
+      if (retryTimer) clearTimeout(retryTimer);
+      retryTimer = null;
+      abandonSocket();
+      buffer = [];
+      setState('closed');
+    }
+  };
+
+  // Deferred so callers can attach handlers first
+  queueMicrotask(connect);
+  return link;
+}
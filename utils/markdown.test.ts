@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { Block, parseInline, parseMarkdown } from './markdown';
+
+// How many lists and quotes sit inside one another along the first path
+function depthOf(blocks: Block[]): number {
+  const block = blocks[0];
+  if (block?.type === 'list') return 1 + depthOf(block.items[0] ?? []);
+  if (block?.type === 'quote') return 1 + depthOf(block.children);
+  return 0;
+}
+
+describe('parseMarkdown', () => {
+  it('nests lists', () => {
+    expect(parseMarkdown('- a\n  - b\n- c')).toEqual([{
+      type: 'list', ordered: false, start: 1, items: [
+        [
+          { type: 'paragraph', children: [{ type: 'text', text: 'a' }] },
+          { type: 'list', ordered: false, start: 1, items: [[{ type: 'paragraph', children: [{ type: 'text', text: 'b' }] }]] }
+        ],
+        [{ type: 'paragraph', children: [{ type: 'text', text: 'c' }] }]
+      ]
+    }]);
+  });
+
+  it('keeps lists and quotes nested past the limit as text', () => {
+    const list = parseMarkdown('- '.repeat(3000) + 'x');
+    expect(depthOf(list)).toBe(16);
+
+    const quote = parseMarkdown('> '.repeat(3000) + 'x');
+    expect(depthOf(quote)).toBe(16);
+  });
+});
+
+describe('parseInline', () => {
+  it('reads emphasis, strong and strikethrough', () => {
+    expect(parseInline('*a* **b** ~~c~~')).toEqual([
+      { type: 'em', children: [{ type: 'text', text: 'a' }] },
+      { type: 'text', text: ' ' },
+      { type: 'strong', children: [{ type: 'text', text: 'b' }] },
+      { type: 'text', text: ' ' },
+      { type: 'del', children: [{ type: 'text', text: 'c' }] }
+    ]);
+  });
+
+  it('keeps unmatched delimiters as text, and still closes later pairs', () => {
+    expect(parseInline('**a *b* ~~c')).toEqual([
+      { type: 'text', text: '**a ' },
+      { type: 'em', children: [{ type: 'text', text: 'b' }] },
+      { type: 'text', text: ' ~~c' }
+    ]);
+  });
+
+  it('parses many unmatched delimiters in linear time', () => {
+    const text = '*a _b ~~c '.repeat(20000);
+    const started = performance.now();
+    expect(parseInline(text)).toEqual([{ type: 'text', text }]);
+    // A rescan per opener would take tens of seconds here
+    expect(performance.now() - started).toBeLessThan(1000);
+  });
+});
@@ -0,0 +1,376 @@
+// A small Markdown parser for model replies: paragraphs, headings, lists,
+// quotes, fenced code, tables and the common inline marks. It produces a tree
+// that components/Markdown.tsx turns into React elements, so no HTML from the
+// model ever reaches the DOM: raw tags stay text and only http(s) and mailto
+// links are kept. Single newlines are line breaks, as replies are written for chat.
+
+export type Inline =
+  | { type: 'text', text: string }
+  | { type: 'strong' | 'em' | 'del', children: Inline[] }
+  | { type: 'code', text: string }
+  | { type: 'link', href: string, children: Inline[] }
+  | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type Block =
+  | { type: 'paragraph', children: Inline[] }
+  | { type: 'heading', level: number, children: Inline[] }
+  | { type: 'code', language: string | null, text: string }
+  | { type: 'list', ordered: boolean, start: number, items: Block[][] }
+  | { type: 'quote', children: Block[] }
+  | { type: 'table', align: TableAlign[], header: Inline[][], rows: Inline[][][] }
+  | { type: 'rule' };
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)/;
+const HEADING = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^ {0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])(\s+)(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+// Lists and quotes nested deeper than this are kept as text
+const MAX_DEPTH = 16;
+
+const isBlank = (line: string) => line.trim() === '';
+const indentOf = (line: string) => line.match(/^\s*/)![0].length;
+
+export function safeHref(href: string): string | null {
+  const trimmed = href.trim();
+  return /^(https?:\/\/|mailto:)/i.test(trimmed) ? trimmed : null;
+}
+
+// Cells split on pipes that are neither escaped nor inside code spans
+function splitRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+
+  const cells: string[] = [];
+  let cell = '';
+  let inCode = false;
+  for (let i = 0; i < row.length; i++) {
+    const c = row[i];
+    if (c === '\\' && row[i + 1] === '|') {
+      cell += '|';
+      i++;
+    } else if (c === '`') {
+      inCode = !inCode;
+      cell += c;
+    } else if (c === '|' && !inCode) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += c;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+const startsBlock = (line: string) =>
+  FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line);
+
+const isTableStart = (lines: string[], i: number) =>
+  lines[i].includes('|') && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1]) && lines[i + 1].includes('-');
+
+function parseList(lines: string[], start: number, depth: number): { block: Block, next: number } {
+  const first = LIST_ITEM.exec(lines[start])!;
+  const indent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: Block[][] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const match = LIST_ITEM.exec(lines[i]);
+    if (!match || match[1].length > indent + 1 || match[1].length < indent || /\d/.test(match[2]) !== ordered) break;
+    const contentIndent = match[1].length + match[2].length + Math.min(match[3].length, 4);
+    const itemLines = [match[4]];
+    i++;
+
+    while (i < lines.length) {
+      const line = lines[i];
+      if (isBlank(line)) {
+        // A blank line only continues the item if indented content follows
+        let j = i + 1;
+        while (j < lines.length && isBlank(lines[j])) j++;
+        if (j < lines.length && indentOf(lines[j]) >= contentIndent) {
+          itemLines.push(...lines.slice(i, j).map(() => ''));
+          i = j;
+          continue;
+        }
+        break;
+      }
+      const leading = indentOf(line);
+      if (leading > indent) {
+        itemLines.push(line.slice(Math.min(leading, contentIndent)));
+      } else if (LIST_ITEM.test(line) || startsBlock(line) || isTableStart(lines, i)) {
+        break;
+      } else {
+        // Lazy continuation of the item's paragraph
+        itemLines.push(line.trim());
+      }
+      i++;
+    }
+    items.push(parseBlocks(itemLines, depth + 1));
+
+    // Items separated by blank lines still belong to the same list
+    let j = i;
+    while (j < lines.length && isBlank(lines[j])) j++;
+    const sibling = j < lines.length ? LIST_ITEM.exec(lines[j]) : null;
+    if (!sibling || sibling[1].length !== indent || /\d/.test(sibling[2]) !== ordered) break;
+    i = j;
+  }
+
+  return { block: { type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items }, next: i };
+}
+
+function parseBlocks(lines: string[], depth = 0): Block[] {
+  const blocks: Block[] = [];
+  const nests = depth < MAX_DEPTH;
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const marker = fence[1];
+      const fenceIndent = indentOf(line);
+      const code: string[] = [];
+      i++;
+      // An unclosed fence (a reply still streaming) runs to the end
+      while (i < lines.length && !(lines[i].trim().startsWith(marker) && lines[i].trim().replace(/[`~]/g, '') === '')) {
+        code.push(lines[i].slice(Math.min(fenceIndent, indentOf(lines[i]))));
+        i++;
+      }
+      i++;
+      blocks.push({ type: 'code', language: fence[2] || null, text: code.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (nests && QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && !isBlank(lines[i]) && (QUOTE.test(lines[i]) || !startsBlock(lines[i]))) {
+        quoted.push(lines[i].replace(QUOTE, ''));
+        i++;
+      }
+      blocks.push({ type: 'quote', children: parseBlocks(quoted, depth + 1) });
+      continue;
+    }
+
+    if (nests && LIST_ITEM.test(line)) {
+      const list = parseList(lines, i, depth);
+      blocks.push(list.block);
+      i = list.next;
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitRow(line);
+      const align = splitRow(lines[i + 1]).map((cell): TableAlign => {
+        const left = cell.startsWith(':');
+        const right = cell.endsWith(':');
+        return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+      });
+      const rows: Inline[][][] = [];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+        const cells = splitRow(lines[i]);
+        // Rows are padded or cut to the header's width
+        rows.push(header.map((_, c) => parseInline(cells[c] ?? '')));
+        i++;
+      }
+      blocks.push({ type: 'table', align: header.map((_, c) => align[c] ?? null), header: header.map(cell => parseInline(cell)), rows });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && !isBlank(lines[i]) && !(paragraph.length > 0 && (startsBlock(lines[i]) || isTableStart(lines, i)))) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+}
+
+export function parseMarkdown(text: string): Block[] {
+  return parseBlocks(text.replace(/\r\n?/g, '\n').split('\n'));
+}
+
+const ESCAPABLE = /[!-/:-@[-`{-~]/;
+const BARE_URL = /^https?:\/\/[^\s<]*[^\s<.,;:!?)'"\]]/;
+const AUTOLINK = /^<((?:https?:\/\/|mailto:)[^\s>]+)>/i;
+const isWordChar = (c: string | undefined) => c !== undefined && /[\p{L}\p{N}]/u.test(c);
+
+// Where `delimiter` closes an emphasis opened just before `from`, skipping code spans
+function findClosing(text: string, delimiter: string, from: number): number {
+  for (let j = from; j < text.length; j++) {
+    if (text[j] === '\\') {
+      j++;
+      continue;
+    }
+    if (text[j] === '`') {
+      const run = text.slice(j).match(/^`+/)![0];
+      const end = text.indexOf(run, j + run.length);
+      if (end !== -1) j = end + run.length - 1;
+      continue;
+    }
+    if (!text.startsWith(delimiter, j) || j === from || /\s/.test(text[j - 1])) continue;
+    const after = text[j + delimiter.length];
+    // A single * must not be the start of a longer run
+    if (after === delimiter[0] && delimiter.length < 3) {
+      j += text.slice(j).match(new RegExp(`^\\${delimiter[0]}+`))![0].length - 1;
+      continue;
+    }
+    if (delimiter[0] === '_' && isWordChar(after)) continue;
+    return j;
+  }
+  return -1;
+}
+
+// Index of the `]` closing the bracket opened at `open`
+function closingBracket(text: string, open: number): number {
+  let depth = 0;
+  for (let j = open; j < text.length; j++) {
+    if (text[j] === '\\') j++;
+    else if (text[j] === '[') depth++;
+    else if (text[j] === ']' && --depth === 0) return j;
+  }
+  return -1;
+}
+
+export function parseInline(text: string): Inline[] {
+  const nodes: Inline[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+
+  // Once a delimiter has no closer after some point, later openers of it are
+  // text too, so unmatched runs (common mid-stream) don't each rescan the rest
+  const unclosed = new Map<string, number>();
+  const closing = (delimiter: string, from: number) => {
+    if (from >= (unclosed.get(delimiter) ?? Infinity)) return -1;
+    const close = findClosing(text, delimiter, from);
+    if (close === -1) unclosed.set(delimiter, from);
+    return close;
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const c = text[i];
+    const rest = text.slice(i);
+
+    if (c === '\\' && i + 1 < text.length && ESCAPABLE.test(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (c === '\n') {
+      flush();
+      nodes.push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    if (c === '`') {
+      const run = rest.match(/^`+/)![0];
+      const end = text.indexOf(run, i + run.length);
+      if (end !== -1) {
+        flush();
+        nodes.push({ type: 'code', text: text.slice(i + run.length, end).replace(/^ (.*) $/, '$1') });
+        i = end + run.length;
+        continue;
+      }
+      buffer += run;
+      i += run.length;
+      continue;
+    }
+
+    if (c === '[') {
+      const close = closingBracket(text, i);
+      const target = close !== -1 && text[close + 1] === '(' ? text.slice(close + 2).match(/^\s*<?([^\s()<>]*(?:\([^\s()]*\)[^\s()<>]*)*)>?(?:\s+(?:"[^"]*"|'[^']*'))?\s*\)/) : null;
+      if (target) {
+        const href = safeHref(target[1]);
+        const children = parseInline(text.slice(i + 1, close));
+        flush();
+        // Unsafe targets keep their label but lose the link
+        if (href) nodes.push({ type: 'link', href, children });
+        else nodes.push(...children);
+        i = close + 2 + target[0].length;
+        continue;
+      }
+    }
+
+    if (c === '<') {
+      const autolink = AUTOLINK.exec(rest);
+      if (autolink) {
+        flush();
+        nodes.push({ type: 'link', href: autolink[1], children: [{ type: 'text', text: autolink[1].replace(/^mailto:/i, '') }] });
+        i += autolink[0].length;
+        continue;
+      }
+    }
+
+    if (c === 'h' && !isWordChar(text[i - 1])) {
+      const url = BARE_URL.exec(rest);
+      if (url) {
+        flush();
+        nodes.push({ type: 'link', href: url[0], children: [{ type: 'text', text: url[0] }] });
+        i += url[0].length;
+        continue;
+      }
+    }
+
+    if (c === '*' || c === '_' || c === '~') {
+      const run = rest.match(c === '*' ? /^\*+/ : c === '_' ? /^_+/ : /^~+/)![0];
+      const length = c === '~' ? (run.length >= 2 ? 2 : 0) : Math.min(run.length, 3);
+      const opens = length > 0 && !/\s/.test(text[i + length] ?? ' ') && !(c === '_' && isWordChar(text[i - 1]));
+      if (opens) {
+        const delimiter = c.repeat(length);
+        const close = closing(delimiter, i + length);
+        if (close !== -1) {
+          const children = parseInline(text.slice(i + length, close));
+          flush();
+          if (c === '~') nodes.push({ type: 'del', children });
+          else if (length === 1) nodes.push({ type: 'em', children });
+          else if (length === 2) nodes.push({ type: 'strong', children });
+          else nodes.push({ type: 'strong', children: [{ type: 'em', children }] });
+          i = close + length;
+          continue;
+        }
+      }
+      buffer += run;
+      i += run.length;
+      continue;
+    }
+
+    buffer += c;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
@@ -0,0 +1,135 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import { ActionItem, MeetingSummary } from '../types';
+import { isDemoMode } from './providers';
+import { FLASH_MODEL } from './providers/geminiProvider';
+import { ExportableTranscript, downloadFile, formatTranscript } from './transcriptExport';
+
+// Minutes for a finished transcript: what was discussed, what was decided and
+// who is doing what. The model is held to a schema and its answer is checked
+// again here, so a summary in the UI or in session metadata always has this shape.
+
+const SUMMARY_PROMPT = `You are taking the minutes of the meeting transcribed below. Return:
+- summary: what was discussed, in a short paragraph of three to six sentences.
+- decisions: every decision that was actually agreed, one sentence each. Empty when nothing was decided.
+- actionItems: every task someone took on or was asked to do. "owner" is the person responsible and "due" the deadline, worded as they were said (e.g. "Friday", "end of March"); use null when the transcript doesn't say. Never invent owners or dates.
+Write in the language the meeting was held in.`;
+
+const SUMMARY_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    decisions: { type: Type.ARRAY, items: { type: Type.STRING } },
+    actionItems: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          task: { type: Type.STRING },
+          owner: { type: Type.STRING, nullable: true },
+          due: { type: Type.STRING, nullable: true }
+        },
+        required: ['task', 'owner', 'due'],
+        propertyOrdering: ['task', 'owner', 'due']
+      }
+    }
+  },
+  required: ['summary', 'decisions', 'actionItems'],
+  propertyOrdering: ['summary', 'decisions', 'actionItems']
+};
+
+const DEMO_DELAY_MS = 1200;
+
+// Demo mode has no model to ask; this matches the shape of the recorded sessions
+const DEMO_SUMMARY: MeetingSummary = {
+  summary: 'The team reviewed the quarterly numbers. Revenue is up four percent on last quarter, and the group agreed the demo recording covers what the client needs to see.',
+  decisions: ['Share the demo recording with the client as it is.'],
+  actionItems: [
+    { task: 'Send the quarterly figures to the client', owner: 'Speaker 1', due: 'Friday' },
+    { task: 'Collect feedback on the demo', owner: null, due: null }
+  ]
+};
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+const optionalText = (value: unknown) => text(value) || null;
+
+// Blank entries (from the model or left behind while editing) are dropped; a
+// summary without its summary paragraph is rejected
+export function validateSummary(data: unknown): MeetingSummary | null {
+  if (!data || typeof data !== 'object') return null;
+  const value = data as Record<string, unknown>;
+  const summary = text(value.summary);
+  if (!summary || !Array.isArray(value.decisions) || !Array.isArray(value.actionItems)) return null;
+
+  const decisions = value.decisions.map(text).filter(Boolean);
+  const actionItems: ActionItem[] = [];
+  for (const item of value.actionItems) {
+    if (!item || typeof item !== 'object') continue;
+    const task = text(item.task);
+    if (task) actionItems.push({ task, owner: optionalText(item.owner), due: optionalText(item.due) });
+  }
+  return { summary, decisions, actionItems };
+}
+
+export function summaryFromMetadata(metadata: Record<string, unknown>): MeetingSummary | null {
+  return validateSummary(metadata.summary);
+}
+
+export async function summarizeTranscript(transcript: ExportableTranscript): Promise<MeetingSummary> {
+  const lines = formatTranscript(transcript, 'txt');
+  if (!lines.trim()) throw new Error('There is nothing to summarize yet.');
+
+  if (isDemoMode()) {
+    await new Promise(resolve => setTimeout(resolve, DEMO_DELAY_MS));
+    return DEMO_SUMMARY;
+  }
+
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const response = await ai.models.generateContent({
+    model: FLASH_MODEL,
+    contents: `${SUMMARY_PROMPT}\n\nTranscript:\n${lines}`,
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: SUMMARY_SCHEMA
+    }
+  });
+
+  let data: unknown;
+  try {
+    data = JSON.parse((response.text || '').trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch {
+    data = null;
+  }
+  const summary = validateSummary(data);
+  if (!summary) throw new Error('The summary came back malformed. Try again.');
+  return summary;
+}
+
+export function summaryToMarkdown(summary: MeetingSummary, transcript: { title: string, startedAt: Date }): string {
+  const item = (action: ActionItem) => {
+    const details = [action.owner && `owner: ${action.owner}`, action.due && `due: ${action.due}`].filter(Boolean);
+    return `- [ ] ${action.task}${details.length > 0 ? ` (${details.join('; ')})` : ''}`;
+  };
+  return [
+    `# ${transcript.title}: Summary`,
+    '',
+    `- Started: ${transcript.startedAt.toLocaleString()}`,
+    '',
+    '## Summary',
+    '',
+    summary.summary,
+    '',
+    '## Decisions',
+    '',
+    ...(summary.decisions.length > 0 ? summary.decisions.map(decision => `- ${decision}`) : ['None recorded.']),
+    '',
+    '## Action Items',
+    '',
+    ...(summary.actionItems.length > 0 ? summary.actionItems.map(item) : ['None recorded.'])
+  ].join('\n') + '\n';
+}
+
+export function downloadSummary(summary: MeetingSummary, transcript: { title: string, startedAt: Date }, format: 'md' | 'json') {
+  const name = { title: `${transcript.title} summary`, startedAt: transcript.startedAt, extension: format };
+  if (format === 'md') downloadFile(summaryToMarkdown(summary, transcript), 'text/markdown', name);
+  else downloadFile(JSON.stringify({ title: transcript.title, startedAt: transcript.startedAt.toISOString(), ...summary }, null, 2), 'application/json', name);
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { createMockLiveConnection, LiveFixture } from './mockLiveConnection';
+import { ASSISTANT_FIXTURE, DIARIZATION_FIXTURE, LIVE_FIXTURES, TRANSCRIBER_FIXTURE, TRANSLATOR_FIXTURE } from './fixtures/liveSessions';
+import { AssemblyOptions, createTurnAssembler, TranscriptEvent } from './turnAssembly';
+import { LinkGap, LinkState } from './liveConnection';
+
+const OPTIONS: Record<string, AssemblyOptions> = {
+  assistant: { mode: 'conversation', idPrefix: 'assistant', sourceLanguage: null, targetLanguage: null },
+  diarization: { mode: 'conversation', idPrefix: 'diarization', sourceLanguage: null, targetLanguage: null },
+  translator: { mode: 'translation', idPrefix: 'translator', sourceLanguage: null, targetLanguage: 'English' },
+  transcriber: { mode: 'transcription', idPrefix: 'transcriber', sourceLanguage: null, targetLanguage: null }
+};
+
+// Each message's audio is taken to start playing when the next one arrives, so
+// a barge-in cuts the reply after what came before the last piece
+async function replay(fixture: LiveFixture) {
+  const link = createMockLiveConnection(fixture);
+  const assembler = createTurnAssembler(OPTIONS[fixture.name]);
+  const events: TranscriptEvent[] = [];
+  const states: LinkState[] = [];
+  const gaps: LinkGap[] = [];
+  let received = 0;
+
+  link.onmessage = (msg) => {
+    events.push(...assembler.receive(msg, new Date(), { playAt: received, heardUntil: received - 1 }));
+    received++;
+  };
+  link.onstatechange = (state) => {
+    states.push(state);
+    // As LiveAgent does: a dropped link ends the turn in progress
+    if (state === 'reconnecting') events.push(...assembler.dispatch({ type: 'flush', at: new Date() }));
+  };
+  link.ongap = (gap) => gaps.push(gap);
+
+  // The link opens on a microtask, like the real one
+  await Promise.resolve();
+  while (link.step());
+  events.push(...assembler.dispatch({ type: 'flush', at: new Date() }));
+
+  const finals = events.flatMap(event => (event.type === 'final' ? [event.turn] : []));
+  return { link, events, finals, states, gaps };
+}
+
+const summarize = (turns: Awaited<ReturnType<typeof replay>>['finals']) =>
+  turns.map(turn => [turn.role, turn.text, turn.language, ...(turn.translation ? [turn.translation.text] : []), ...(turn.interrupted ? ['interrupted'] : [])]);
+
+describe('recorded Live fixtures', () => {
+  it.each(LIVE_FIXTURES.map(fixture => [fixture.name, fixture] as const))('%s replays to the end with unique turn ids', async (_, fixture) => {
+    const { link, finals } = await replay(fixture);
+    expect(link.step()).toBe(false);
+    expect(finals.length).toBeGreaterThan(0);
+    expect(new Set(finals.map(turn => turn.id)).size).toBe(finals.length);
+    // Every fixture ends on a complete turn, so the last flush has nothing left
+    expect(finals.every(turn => turn.text.trim() === turn.text && turn.text.length > 0)).toBe(true);
+  });
+
+  it('assistant: tags, barge-in, a dropped link and one-message turns', async () => {
+    const { finals, events, states, gaps } = await replay(ASSISTANT_FIXTURE);
+
+    expect(summarize(finals)).toEqual([
+      ['user', 'Hi EBURON, can you hear me clearly?', 'English'],
+      ['model', 'Loud and clear. How can I help you today?', 'English'],
+      ['user', '¿Puedes responder en español, por favor?', 'Spanish'],
+      ['model', 'Claro que sí. Desde ahora te respondo en español.', 'Spanish'],
+      ['user', 'Perfecto, ¿qué hora es en Madrid?', 'Spanish'],
+      ['model', 'Son las tres de la tarde en Madrid.', 'Spanish'],
+      // No tag: the previous turn's language carries over
+      ['user', 'Gracias.', 'Spanish'],
+      ['model', 'De nada, aquí estoy si necesitas algo más.', 'Spanish'],
+      // Barge-in: the reply is cut where playback had got to
+      ['model', 'Sure. While you do that,', 'English', 'interrupted'],
+      ['user', 'Hold on one second. Actually, just the first item.', 'English'],
+      // Input and output in the same message
+      ['user', 'Thanks.', 'English'],
+      ['model', 'You are welcome.', 'English']
+    ]);
+    expect(events).toContainEqual({ type: 'interrupted', heardText: 'Sure. While you do that,' });
+
+    expect(states).toEqual(['open', 'reconnecting', 'open']);
+    expect(gaps).toHaveLength(1);
+    expect(gaps[0]).toMatchObject({ resumed: true, replayed: 0, dropped: 0 });
+  });
+
+  it('diarization: speakers are announced once and kept on each turn', async () => {
+    const { finals, events } = await replay(DIARIZATION_FIXTURE);
+
+    expect(events.filter(event => event.type === 'speaker')).toEqual([
+      { type: 'speaker', speakerId: 'Speaker 1' },
+      { type: 'speaker', speakerId: 'Speaker 2' }
+    ]);
+    const replies = finals.filter(turn => turn.role === 'model');
+    expect(replies.map(turn => turn.speakers?.map(span => [span.speakerId, span.text]))).toEqual([
+      [['Speaker 1', 'Shall we start with the budget?'], ['Speaker 2', 'I think we are over by about ten percent.']],
+      [['Speaker 1', 'Then we cut the travel line.'], ['Speaker 2', 'Agreed, let us do that.']],
+      [['Speaker 1', 'Who sends the update?'], ['Speaker 2', 'I will, by Friday.']]
+    ]);
+  });
+
+  it('translator: each original is paired with its translation', async () => {
+    const { finals } = await replay(TRANSLATOR_FIXTURE);
+
+    expect(summarize(finals)).toEqual([
+      ['user', 'Buenos días a todos, empezamos en cinco minutos.', 'Spanish', 'Good morning everyone, we start in five minutes.'],
+      ['user', 'El informe está casi terminado.', 'Spanish', 'The report is almost finished.'],
+      // No tag: the script of what was said decides
+      ['user', '会議室は三階です。', 'Japanese', 'The meeting room is on the third floor.']
+    ]);
+  });
+
+  it('transcriber: one turn per sentence, nothing from the model', async () => {
+    const { finals } = await replay(TRANSCRIBER_FIXTURE);
+
+    expect(finals.map(turn => [turn.id, turn.role, turn.text])).toEqual([
+      ['transcriber-1-user', 'user', 'Welcome to the weekly sync.'],
+      ['transcriber-2-user', 'user', 'First, the release is on track for next Tuesday.'],
+      ['transcriber-3-user', 'user', 'Second, we still need a volunteer for the on-call rotation.'],
+      ['transcriber-4-user', 'user', 'Let us pick that up after lunch.']
+    ]);
+  });
+
+  it('records what the app sends, and stops delivering once closed', async () => {
+    const link = createMockLiveConnection(TRANSCRIBER_FIXTURE);
+    await Promise.resolve();
+    link.send({ audio: { data: 'AAAA', mimeType: 'audio/pcm;rate=16000' } });
+    expect(link.sent).toEqual([{ audio: { data: 'AAAA', mimeType: 'audio/pcm;rate=16000' } }]);
+
+    link.close();
+    expect(link.state).toBe('closed');
+    expect(link.step()).toBe(false);
+  });
+});
@@ -0,0 +1,149 @@
+import { LiveSendRealtimeInputParameters, LiveServerMessage } from '@google/genai';
+import { LiveConnection, LinkState } from './liveConnection';
+
+// Stand-in for the Live API that replays a recorded session. It implements the
+// same LiveConnection contract as the real link, so everything downstream
+// (turn assembly, barge-in, gap markers) runs unchanged without a key or a
+// network. `autoplay` delivers messages at their recorded times; otherwise
+// tests drive it one message at a time with step().
+
+// Plain-object form of a server message, as captured from a real session
+export type FixtureMessage = Omit<LiveServerMessage, 'text' | 'data'>;
+
+export type FixtureEvent =
+  // Milliseconds after the link opened
+  | { at: number, message: FixtureMessage }
+  // The link drops and comes back `durationMs` later
+  | { at: number, drop: { durationMs: number, resumed: boolean } };
+
+export interface LiveFixture {
+  name: string;
+  description: string;
+  events: FixtureEvent[];
+}
+
+export interface MockLiveConnection extends LiveConnection {
+  // Everything the app sent, in order, for assertions
+  sent: LiveSendRealtimeInputParameters[];
+  // Delivers the next event now; false once the fixture is exhausted
+  step(): boolean;
+}
+
+export interface MockOptions {
+  autoplay?: boolean;
+  // Playback rate for autoplay; 2 replays twice as fast
+  speed?: number;
+  // Start over after the last event (demo mode)
+  loop?: boolean;
+}
+
+const LOOP_PAUSE_MS = 3000;
+
+export function toServerMessage(message: FixtureMessage): LiveServerMessage {
+  return Object.assign(new LiveServerMessage(), message);
+}
+
+export function createMockLiveConnection(fixture: LiveFixture, options: MockOptions = {}): MockLiveConnection {
+  const { autoplay = false, speed = 1, loop = false } = options;
+  const events = [...fixture.events].sort((a, b) => a.at - b.at);
+
+  let index = 0;
+  // Wall-clock time that fixture time 0 maps to; pushed back by outages and loops
+  let origin = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let downSince: Date | null = null;
+  let buffered = 0;
+
+  const setState = (state: LinkState) => {
+    if (link.state === state) return;
+    link.state = state;
+    link.onstatechange?.(state);
+  };
+
+  const reopen = (resumed: boolean) => {
+    setState('open');
+    if (downSince) link.ongap?.({ from: downSince, to: new Date(), resumed, replayed: buffered, dropped: 0 });
+    downSince = null;
+    buffered = 0;
+  };
+
+  const deliver = (event: FixtureEvent) => {
+    if ('message' in event) {
+      link.onmessage?.(toServerMessage(event.message));
+      return;
+    }
+    downSince = new Date();
+    setState('reconnecting');
+    if (!autoplay) {
+      reopen(event.drop.resumed);
+      return;
+    }
+    origin += event.drop.durationMs / speed;
+    timer = setTimeout(() => {
+      reopen(event.drop.resumed);
+      schedule();
+    }, event.drop.durationMs / speed);
+  };
+
+  const step = () => {
+    if (link.state === 'closed') return false;
+    if (index >= events.length) {
+      if (!loop || events.length === 0) return false;
+      index = 0;
+    }
+    deliver(events[index++]);
+    return true;
+  };
+
+  const schedule = () => {
+    timer = null;
+    if (link.state !== 'open') return;
+    if (index >= events.length) {
+      if (!loop || events.length === 0) return;
+      index = 0;
+      origin = Date.now() + LOOP_PAUSE_MS;
+    }
+    const event = events[index];
+    timer = setTimeout(() => {
+      index++;
+      deliver(event);
+      if (!('drop' in event)) schedule();
+    }, Math.max(0, origin + event.at / speed - Date.now()));
+  };
+
+  const link: MockLiveConnection = {
+    state: 'connecting',
+    onopen: null,
+    onmessage: null,
+    onstatechange: null,
+    ongap: null,
+    onclose: null,
+    sent: [],
+    step,
+
+    send(input) {
+      if (link.state === 'closed') return;
+      link.sent.push(input);
+      if (link.state === 'reconnecting') buffered++;
+    },
+
+    close() {
+      if (timer) clearTimeout(timer);
+      timer = null;
+      setState('closed');
+    }
+  };
+
+  // Deferred so callers can attach handlers first, like the real link
+  queueMicrotask(() => {
+    if (link.state === 'closed') return;
+    setState('open');
+    link.onopen?.();
+    if (autoplay) {
+      origin = Date.now();
+      schedule();
+    }
+  });
+
+  return link;
+}
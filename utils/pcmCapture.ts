@@ -0,0 +1,114 @@
+import { StreamingResampler } from './audioUtils';
+
+// AudioWorklet replacement for ScriptProcessorNode capture. The processor runs
+// on the audio rendering thread, resamples from whatever rate the context
+// actually runs at to TARGET_SAMPLE_RATE, clamps and converts samples to Int16,
+// frames them into fixed-size buffers and posts each frame (with its RMS level)
+// back to the main thread as a transferable, so the main thread only has to encode and send.
+
+const PROCESSOR_NAME = 'eburon-pcm-capture';
+
+// Rate of every frame handed to callers, whatever the hardware runs at
+export const TARGET_SAMPLE_RATE = 16000;
+export const PCM_MIME_TYPE = `audio/pcm;rate=${TARGET_SAMPLE_RATE}`;
+
+const WORKLET_SOURCE = `
+const StreamingResampler = (${StreamingResampler.toString()});
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    // \`sampleRate\` is the AudioWorkletGlobalScope's rate: the real context rate
+    this.resampler = new StreamingResampler(sampleRate, options.processorOptions.targetRate);
+    this.frameSize = options.processorOptions.frameSize;
+    this.frame = new Int16Array(this.frameSize);
+    this.offset = 0;
+    this.sumSquares = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    const input = this.resampler.process(channel);
+
+    for (let i = 0; i < input.length; i++) {
+      const s = Math.max(-1, Math.min(1, input[i]));
+      this.sumSquares += s * s;
+      this.frame[this.offset++] = s < 0 ? s * 0x8000 : s * 0x7fff;
+
+      if (this.offset === this.frameSize) {
+        const pcm = this.frame.buffer;
+        this.port.postMessage({ pcm, rms: Math.sqrt(this.sumSquares / this.frameSize) }, [pcm]);
+        this.frame = new Int16Array(this.frameSize);
+        this.offset = 0;
+        this.sumSquares = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+// Samples per frame at TARGET_SAMPLE_RATE (256 ms)
+export const DEFAULT_FRAME_SIZE = 4096;
+
+export const frameDurationMs = (frameSize = DEFAULT_FRAME_SIZE) => frameSize / TARGET_SAMPLE_RATE * 1000;
+
+export interface PcmFrame {
+  // Little-endian Int16 mono samples at TARGET_SAMPLE_RATE
+  pcm: ArrayBuffer;
+  rms: number;
+}
+
+export interface PcmCapture {
+  // Connect the audio to capture into this node
+  node: AudioWorkletNode;
+  onframe: ((frame: PcmFrame) => void) | null;
+  stop(): void;
+}
+
+let workletUrl: string | null = null;
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+async function ensureWorklet(ctx: BaseAudioContext) {
+  if (loadedContexts.has(ctx)) return;
+  if (!workletUrl) {
+    workletUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+  }
+  await ctx.audioWorklet.addModule(workletUrl);
+  loadedContexts.add(ctx);
+}
+
+export async function createPcmCapture(ctx: AudioContext, frameSize = DEFAULT_FRAME_SIZE): Promise<PcmCapture> {
+  await ensureWorklet(ctx);
+
+  const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { frameSize, targetRate: TARGET_SAMPLE_RATE }
+  });
+
+  // Keep the node pulled by the graph without making it audible
+  const mute = ctx.createGain();
+  mute.gain.value = 0;
+  node.connect(mute);
+  mute.connect(ctx.destination);
+
+  const capture: PcmCapture = {
+    node,
+    onframe: null,
+    stop: () => {
+      node.port.onmessage = null;
+      node.port.close();
+      node.disconnect();
+      mute.disconnect();
+    }
+  };
+
+  node.port.onmessage = (e: MessageEvent<PcmFrame>) => capture.onframe?.(e.data);
+  return capture;
+}
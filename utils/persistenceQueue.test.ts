@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createPersistenceQueue, RejectedWriteError } from './persistenceQueue';
+
+// Without IndexedDB (as under Node) the queue lives in memory only
+describe('createPersistenceQueue', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sets a rejected write aside and carries on with the rest', async () => {
+    const sent: string[] = [];
+    const queue = createPersistenceQueue<string>(async (payload) => {
+      if (payload === 'bad') throw new RejectedWriteError('Transcript service responded 422');
+      sent.push(payload);
+    });
+
+    await queue.enqueue('1', 'first');
+    await queue.enqueue('2', 'bad');
+    await queue.enqueue('3', 'last');
+    await queue.flush();
+
+    expect(sent).toEqual(['first', 'last']);
+    expect(queue.getStatus()).toMatchObject({ pending: 0, failed: 1, failure: 'Transcript service responded 422' });
+  });
+
+  it('sets a write aside once it has failed too often, then sends what follows', async () => {
+    vi.useFakeTimers();
+    const sent: string[] = [];
+    let calls = 0;
+    const queue = createPersistenceQueue<string>(async (payload) => {
+      if (payload === 'flaky') {
+        calls++;
+        throw new Error('Transcript service responded 500');
+      }
+      sent.push(payload);
+    });
+
+    await queue.enqueue('1', 'flaky');
+    await queue.enqueue('2', 'next');
+    // Enough for every backoff step
+    await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+    await queue.flush();
+
+    expect(calls).toBe(8);
+    expect(sent).toEqual(['next']);
+    expect(queue.getStatus()).toMatchObject({ pending: 0, failed: 1 });
+  });
+
+  it('retries set-aside writes on request, and can discard them', async () => {
+    let accept = false;
+    const sent: string[] = [];
+    const queue = createPersistenceQueue<string>(async (payload) => {
+      if (!accept) throw new RejectedWriteError('Transcript service responded 400');
+      sent.push(payload);
+    });
+
+    await queue.enqueue('1', 'a');
+    await queue.enqueue('2', 'b');
+    await queue.flush();
+    expect(queue.getStatus().failed).toBe(2);
+
+    accept = true;
+    await queue.retryFailed();
+    expect(sent).toEqual(['a', 'b']);
+    expect(queue.getStatus()).toMatchObject({ pending: 0, failed: 0 });
+
+    accept = false;
+    await queue.enqueue('3', 'c');
+    await queue.flush();
+    await queue.discardFailed();
+    expect(queue.getStatus()).toMatchObject({ pending: 0, failed: 0 });
+  });
+});
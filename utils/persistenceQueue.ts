@@ -0,0 +1,219 @@
+import { isIndexedDbAvailable, openDatabase, requestToPromise, transactionDone } from './indexedDb';
+
+const DB_NAME = 'eburon-persistence';
+const STORE_NAME = 'writes';
+
+const BASE_RETRY_MS = 2000;
+const MAX_RETRY_MS = 60000;
+// Failed sends while online before a write is set aside (a few minutes of backoff)
+const MAX_ATTEMPTS = 8;
+
+// Thrown by `send` when the backend refused the write itself (bad request,
+// constraint violation); sending it again cannot succeed
+export class RejectedWriteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RejectedWriteError';
+  }
+}
+
+export interface QueueStatus {
+  pending: number;
+  syncing: boolean;
+  lastError: string | null;
+  // Writes set aside after being rejected or failing too often, and why the latest was
+  failed: number;
+  failure: string | null;
+}
+
+interface QueuedWrite<T> {
+  // Idempotency key: the backend must treat a repeated key as a no-op
+  key: string;
+  seq: number;
+  payload: T;
+  attempts: number;
+  // Set once the write is set aside: why its last send failed
+  failure?: string;
+}
+
+export interface PersistenceQueue<T> {
+  enqueue(key: string, payload: T): Promise<void>;
+  flush(): Promise<void>;
+  // Puts set-aside writes back in the queue, in their original order
+  retryFailed(): Promise<void>;
+  // Gives up on set-aside writes for good
+  discardFailed(): Promise<void>;
+  getStatus(): QueueStatus;
+  subscribe(listener: () => void): () => void;
+}
+
+// Writes are stored locally first, then pushed to `send` one at a time in the
+// order they were enqueued. A failed send stops the flush (so a turn is never
+// written before its session) and is retried with exponential backoff. A write
+// the backend rejects, or that keeps failing while online, is set aside so it
+// can't hold up everything after it; it stays stored until retried or discarded.
+// Without IndexedDB (e.g. some private browsing modes) the queue only lives in memory.
+export function createPersistenceQueue<T>(send: (payload: T, key: string) => Promise<void>): PersistenceQueue<T> {
+  const memory = new Map<string, QueuedWrite<T>>();
+  const failed = new Map<string, QueuedWrite<T>>();
+  const listeners = new Set<() => void>();
+  let status: QueueStatus = { pending: 0, syncing: false, lastError: null, failed: 0, failure: null };
+  let seq = Date.now();
+  let flushing: Promise<void> | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let consecutiveFailures = 0;
+
+  const db = () => openDatabase(DB_NAME, 1, database => {
+    if (!database.objectStoreNames.contains(STORE_NAME)) {
+      database.createObjectStore(STORE_NAME, { keyPath: 'key' });
+    }
+  });
+
+  const setStatus = (next: Partial<QueueStatus>) => {
+    status = { ...status, ...next };
+    listeners.forEach(listener => listener());
+  };
+
+  const persist = async (write: QueuedWrite<T>) => {
+    if (write.failure === undefined) memory.set(write.key, write);
+    else failed.set(write.key, write);
+    if (!isIndexedDbAvailable()) return;
+    try {
+      const tx = (await db()).transaction(STORE_NAME, 'readwrite');
+      tx.objectStore(STORE_NAME).put(write);
+      await transactionDone(tx);
+    } catch (e) {
+      console.warn('Local transcript buffer unavailable:', e);
+    }
+  };
+
+  const remove = async (key: string) => {
+    memory.delete(key);
+    failed.delete(key);
+    if (!isIndexedDbAvailable()) return;
+    try {
+      const tx = (await db()).transaction(STORE_NAME, 'readwrite');
+      tx.objectStore(STORE_NAME).delete(key);
+      await transactionDone(tx);
+    } catch (e) {
+      console.warn('Local transcript buffer unavailable:', e);
+    }
+  };
+
+  // Picks up writes left behind by a previous page load
+  const loadPending = async () => {
+    if (!isIndexedDbAvailable()) return;
+    try {
+      const tx = (await db()).transaction(STORE_NAME, 'readonly');
+      const stored = await requestToPromise(tx.objectStore(STORE_NAME).getAll()) as QueuedWrite<T>[];
+      stored.forEach(write => {
+        const target = write.failure === undefined ? memory : failed;
+        if (!target.has(write.key)) target.set(write.key, write);
+        seq = Math.max(seq, write.seq + 1);
+      });
+    } catch (e) {
+      console.warn('Local transcript buffer unavailable:', e);
+    }
+  };
+  const loaded = loadPending().then(() => setStatus({ pending: memory.size, failed: failed.size, failure: [...failed.values()].pop()?.failure ?? null }));
+
+  const scheduleRetry = () => {
+    if (retryTimer) clearTimeout(retryTimer);
+    const delay = Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** (consecutiveFailures - 1));
+    const jitter = delay * 0.2 * Math.random();
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      flush();
+    }, delay + jitter);
+  };
+
+  const runFlush = async () => {
+    await loaded;
+    setStatus({ syncing: true });
+
+    // Re-read the queue each round so writes enqueued mid-flush go out too
+    while (memory.size > 0) {
+      const write = [...memory.values()].reduce((a, b) => (b.seq < a.seq ? b : a));
+      try {
+        await send(write.payload, write.key);
+        await remove(write.key);
+        consecutiveFailures = 0;
+        setStatus({ pending: memory.size, lastError: null });
+      } catch (e: any) {
+        const message = e?.message || 'Sync failed';
+        // Failures while offline say nothing about the write itself
+        const offline = typeof navigator !== 'undefined' && navigator.onLine === false;
+        const attempts = write.attempts + (offline ? 0 : 1);
+        if (e instanceof RejectedWriteError || attempts >= MAX_ATTEMPTS) {
+          console.warn(`Setting aside transcript write ${write.key}:`, message);
+          await persist({ ...write, attempts, failure: message });
+          memory.delete(write.key);
+          setStatus({ pending: memory.size, failed: failed.size, failure: message });
+          continue;
+        }
+        consecutiveFailures++;
+        await persist({ ...write, attempts });
+        setStatus({ lastError: message });
+        scheduleRetry();
+        break;
+      }
+    }
+
+    setStatus({ syncing: false, pending: memory.size });
+  };
+
+  const flush = (): Promise<void> => {
+    if (!flushing) {
+      flushing = runFlush().finally(() => {
+        flushing = null;
+      });
+    }
+    return flushing;
+  };
+
+  const retryFailed = async () => {
+    await loaded;
+    for (const write of [...failed.values()]) {
+      failed.delete(write.key);
+      await persist({ key: write.key, seq: write.seq, payload: write.payload, attempts: 0 });
+    }
+    setStatus({ pending: memory.size, failed: failed.size, failure: null });
+    consecutiveFailures = 0;
+    await flush();
+  };
+
+  const discardFailed = async () => {
+    await loaded;
+    for (const key of [...failed.keys()]) await remove(key);
+    setStatus({ failed: failed.size, failure: null });
+  };
+
+  const enqueue = async (key: string, payload: T) => {
+    await loaded;
+    await persist({ key, seq: seq++, payload, attempts: 0 });
+    setStatus({ pending: memory.size });
+    if (!retryTimer) flush();
+  };
+
+  if (typeof window !== 'undefined') {
+    window.addEventListener('online', () => {
+      consecutiveFailures = 0;
+      flush();
+    });
+  }
+  loaded.then(() => {
+    if (memory.size > 0) flush();
+  });
+
+  return {
+    enqueue,
+    flush,
+    retryFailed,
+    discardFailed,
+    getStatus: () => status,
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    }
+  };
+}
@@ -0,0 +1,78 @@
+import { GoogleGenAI, LiveConnectConfig, Type } from '@google/genai';
+import { blobToBase64 } from '../audioUtils';
+import { parseSegments, segmentsToText } from '../fileTranscription';
+import { createLiveConnection } from '../liveConnection';
+import { createTranscriptionChannel } from '../transcriptionChannel';
+import { LiveProvider, TranscriptionProvider } from '../transcriptionProvider';
+
+export const FLASH_MODEL = 'gemini-2.5-flash';
+export const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
+const SEGMENT_PROMPT = `Transcribe this audio precisely.
+Split it into segments at every change of speaker or natural pause.
+For each segment give the start and end time in seconds from the beginning of the audio,
+a speaker label ("Speaker 1", "Speaker 2", ...) that stays consistent for the same voice, and the exact words spoken.`;
+
+const PLAIN_PROMPT = 'Transcribe this audio precisely.';
+
+const SEGMENT_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      start: { type: Type.NUMBER, description: 'Start time in seconds' },
+      end: { type: Type.NUMBER, description: 'End time in seconds' },
+      speaker: { type: Type.STRING },
+      text: { type: Type.STRING }
+    },
+    required: ['start', 'end', 'speaker', 'text'],
+    propertyOrdering: ['start', 'end', 'speaker', 'text']
+  }
+};
+
+export function createGeminiTranscriptionProvider(apiKey: string | undefined): TranscriptionProvider {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    kind: 'gemini',
+    model: FLASH_MODEL,
+
+    async transcribe(audio) {
+      const audioPart = { inlineData: { mimeType: audio.type || 'audio/webm', data: await blobToBase64(audio) } };
+
+      const response = await ai.models.generateContent({
+        model: FLASH_MODEL,
+        contents: { parts: [audioPart, { text: SEGMENT_PROMPT }] },
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: SEGMENT_SCHEMA
+        }
+      });
+
+      const segments = parseSegments(response.text || '');
+      if (segments) {
+        return { segments, text: segmentsToText(segments) };
+      }
+
+      console.warn('Structured transcription was malformed, falling back to plain text.');
+      const plain = await ai.models.generateContent({
+        model: FLASH_MODEL,
+        contents: { parts: [audioPart, { text: PLAIN_PROMPT }] }
+      });
+      return { segments: null, text: plain.text || 'No transcription generated.' };
+    }
+  };
+}
+
+export function createGeminiLiveProvider(apiKey: string | undefined): LiveProvider {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const connect = (config: LiveConnectConfig) => createLiveConnection(ai, { model: LIVE_MODEL, config });
+
+  return {
+    kind: 'gemini',
+    model: LIVE_MODEL,
+    openTranscriptionChannel: (input, options) => createTranscriptionChannel(connect, input, options),
+    connect
+  };
+}
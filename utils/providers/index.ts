@@ -0,0 +1,102 @@
+import { LiveConnectConfig } from '@google/genai';
+import { LiveProvider, ProviderKind, TranscriptionProvider } from '../transcriptionProvider';
+import { createGeminiLiveProvider, createGeminiTranscriptionProvider } from './geminiProvider';
+import { createWhisperLiveProvider, createWhisperTranscriptionProvider, WhisperConfig } from './whisperProvider';
+import { createMockLiveProvider, createMockTranscriptionProvider } from './mockProvider';
+import { createReplayLiveProvider } from './replayProvider';
+import { createTranscriptionChannel } from '../transcriptionChannel';
+import { isRecordingEnabled, recordConnection, SessionRecording } from '../sessionRecorder';
+import { isIndexedDbAvailable } from '../indexedDb';
+
+const PROVIDER_KINDS: ProviderKind[] = ['gemini', 'whisper', 'mock'];
+const STORAGE_KEY = 'eburon.provider';
+const DEFAULT_WHISPER_MODEL = 'whisper-1';
+
+const isProviderKind = (value: unknown): value is ProviderKind =>
+  PROVIDER_KINDS.includes(value as ProviderKind);
+
+// Run-time choice (`?provider=whisper` or localStorage) wins over the build-time
+// TRANSCRIPTION_PROVIDER setting, which defaults to Gemini.
+export function resolveProviderKind(): ProviderKind {
+  if (typeof window !== 'undefined') {
+    const fromQuery = new URLSearchParams(window.location.search).get('provider');
+    if (isProviderKind(fromQuery)) {
+      localStorage.setItem(STORAGE_KEY, fromQuery);
+      return fromQuery;
+    }
+    const remembered = localStorage.getItem(STORAGE_KEY);
+    if (isProviderKind(remembered)) return remembered;
+  }
+  return isProviderKind(process.env.TRANSCRIPTION_PROVIDER) ? process.env.TRANSCRIPTION_PROVIDER : 'gemini';
+}
+
+function whisperConfig(): WhisperConfig {
+  if (!process.env.WHISPER_API_URL) {
+    throw new Error('WHISPER_API_URL must be set to use the Whisper transcription provider.');
+  }
+  return {
+    baseUrl: process.env.WHISPER_API_URL,
+    apiKey: process.env.WHISPER_API_KEY || undefined,
+    model: process.env.WHISPER_MODEL || DEFAULT_WHISPER_MODEL
+  };
+}
+
+let replay: SessionRecording | null = null;
+
+// Until stopReplay, Live sessions play `recording` back instead of connecting
+export function startReplay(recording: SessionRecording) {
+  replay = recording;
+}
+
+export function stopReplay() {
+  replay = null;
+}
+
+export function getReplay(): SessionRecording | null {
+  return replay;
+}
+
+// Recorded sessions (demo fixtures or a replay) and a synthetic microphone instead of the real thing
+export function isDemoMode(): boolean {
+  return replay !== null || resolveProviderKind() === 'mock';
+}
+
+// Whether to record is checked per session, so it can be switched on at any time
+function withRecorder(provider: LiveProvider): LiveProvider {
+  const { connect } = provider;
+  if (!connect) return provider;
+
+  const recordingConnect = (config: LiveConnectConfig) => {
+    const connection = connect(config);
+    return isRecordingEnabled() && isIndexedDbAvailable() ? recordConnection(connection, { provider: provider.kind, model: provider.model, config }) : connection;
+  };
+  return {
+    ...provider,
+    openTranscriptionChannel: (input, options) => createTranscriptionChannel(recordingConnect, input, options),
+    connect: recordingConnect
+  };
+}
+
+let transcriptionProvider: TranscriptionProvider | null = null;
+let liveProvider: LiveProvider | null = null;
+
+export function getTranscriptionProvider(): TranscriptionProvider {
+  if (!transcriptionProvider) {
+    const kind = resolveProviderKind();
+    transcriptionProvider = kind === 'whisper' ? createWhisperTranscriptionProvider(whisperConfig())
+      : kind === 'mock' ? createMockTranscriptionProvider()
+      : createGeminiTranscriptionProvider(process.env.API_KEY);
+  }
+  return transcriptionProvider;
+}
+
+export function getLiveProvider(): LiveProvider {
+  if (replay) return createReplayLiveProvider(replay);
+  if (!liveProvider) {
+    const kind = resolveProviderKind();
+    liveProvider = withRecorder(kind === 'whisper' ? createWhisperLiveProvider(whisperConfig())
+      : kind === 'mock' ? createMockLiveProvider()
+      : createGeminiLiveProvider(process.env.API_KEY));
+  }
+  return liveProvider;
+}
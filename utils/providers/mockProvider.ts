@@ -0,0 +1,54 @@
+import { LiveConnectConfig } from '@google/genai';
+import { TranscriptSegment } from '../../types';
+import { segmentsToText } from '../fileTranscription';
+import { createMockLiveConnection, LiveFixture } from '../mockLiveConnection';
+import { createTranscriptionChannel } from '../transcriptionChannel';
+import { LiveProvider, TranscriptionProvider } from '../transcriptionProvider';
+import { ASSISTANT_FIXTURE, DIARIZATION_FIXTURE, LIVE_FIXTURES, TRANSCRIBER_FIXTURE, TRANSLATOR_FIXTURE } from '../fixtures/liveSessions';
+
+// Demo mode: recorded sessions instead of Gemini, so the whole UI can be tried
+// (and shown) without a key, a network or a microphone.
+
+const UPLOAD_DELAY_MS = 1500;
+
+const UPLOAD_SEGMENTS: TranscriptSegment[] = [
+  { start: 0.4, end: 3.1, speaker: 'Speaker 1', text: 'Thanks for joining, this is the demo recording.' },
+  { start: 3.6, end: 6.8, speaker: 'Speaker 2', text: 'Happy to be here. Shall we go through the numbers?' },
+  { start: 7.2, end: 10.5, speaker: 'Speaker 1', text: 'Yes, revenue is up four percent on last quarter.' }
+];
+
+// `?fixture=<name>` picks one explicitly; otherwise the mode written into the
+// system instruction decides, as it decides the real model's behaviour
+function fixtureFor(config: LiveConnectConfig): LiveFixture {
+  const requested = typeof window !== 'undefined' ? new URLSearchParams(window.location.search).get('fixture') : null;
+  const named = LIVE_FIXTURES.find(fixture => fixture.name === requested);
+  if (named) return named;
+
+  const instruction = typeof config.systemInstruction === 'string' ? config.systemInstruction : '';
+  if (!config.outputAudioTranscription) return TRANSCRIBER_FIXTURE;
+  if (instruction.includes('TRANSLATOR')) return TRANSLATOR_FIXTURE;
+  if (instruction.includes('DIARIZATION')) return DIARIZATION_FIXTURE;
+  return ASSISTANT_FIXTURE;
+}
+
+export function createMockTranscriptionProvider(): TranscriptionProvider {
+  return {
+    kind: 'mock',
+    model: 'mock-file',
+    async transcribe() {
+      await new Promise(resolve => setTimeout(resolve, UPLOAD_DELAY_MS));
+      return { segments: UPLOAD_SEGMENTS, text: segmentsToText(UPLOAD_SEGMENTS) };
+    }
+  };
+}
+
+export function createMockLiveProvider(): LiveProvider {
+  const connect = (config: LiveConnectConfig) => createMockLiveConnection(fixtureFor(config), { autoplay: true, loop: true });
+
+  return {
+    kind: 'mock',
+    model: 'mock-live',
+    openTranscriptionChannel: (input, options) => createTranscriptionChannel(connect, input, options),
+    connect
+  };
+}
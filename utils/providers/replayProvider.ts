@@ -0,0 +1,17 @@
+import { createMockLiveConnection } from '../mockLiveConnection';
+import { recordingToFixture, SessionRecording } from '../sessionRecorder';
+import { createTranscriptionChannel } from '../transcriptionChannel';
+import { LiveProvider } from '../transcriptionProvider';
+
+// Plays a recorded session back at its original pace through the mock
+// connection, so its transcript is rebuilt by the same code that built it live.
+export function createReplayLiveProvider(recording: SessionRecording): LiveProvider {
+  const connect = () => createMockLiveConnection(recordingToFixture(recording), { autoplay: true });
+
+  return {
+    kind: 'replay',
+    model: recording.model,
+    openTranscriptionChannel: (input, options) => createTranscriptionChannel(connect, input, options),
+    connect
+  };
+}
@@ -0,0 +1,73 @@
+import { validateSegments, segmentsToText } from '../fileTranscription';
+import { LiveProvider, TranscriptionProvider } from '../transcriptionProvider';
+import { createUtteranceChannel } from '../utteranceChannel';
+
+export interface WhisperConfig {
+  // OpenAI-style base URL including the version, e.g. http://localhost:8080/v1
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+}
+
+interface VerboseTranscription {
+  text?: string;
+  segments?: { start: number, end: number, text: string }[];
+}
+
+// Any server implementing OpenAI's POST {baseUrl}/audio/transcriptions:
+// whisper.cpp (started with --inference-path /v1/audio/transcriptions),
+// faster-whisper-server, vLLM or OpenAI itself. Segments come from
+// `verbose_json` when the server supports it; Whisper doesn't tell voices
+// apart, so every segment is attributed to one speaker.
+export function createWhisperTranscriptionProvider(config: WhisperConfig): TranscriptionProvider {
+  const endpoint = `${config.baseUrl.replace(/\/+$/, '')}/audio/transcriptions`;
+
+  return {
+    kind: 'whisper',
+    model: config.model,
+
+    async transcribe(audio) {
+      const form = new FormData();
+      const extension = audio.type.includes('wav') ? 'wav' : 'webm';
+      form.append('file', audio, `audio.${extension}`);
+      form.append('model', config.model);
+      form.append('response_format', 'verbose_json');
+
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {},
+        body: form
+      });
+      if (!response.ok) {
+        throw new Error(`Transcription service responded ${response.status}`);
+      }
+
+      // Servers without verbose_json answer with plain text
+      const body = await response.text();
+      let data: VerboseTranscription;
+      try {
+        data = JSON.parse(body);
+      } catch {
+        return { segments: null, text: body.trim() };
+      }
+
+      const segments = validateSegments(data.segments?.map(({ start, end, text }) => ({ start, end, text })));
+      if (segments) {
+        return { segments, text: segmentsToText(segments) };
+      }
+      return { segments: null, text: (data.text ?? '').trim() };
+    }
+  };
+}
+
+// Transcription only: there is no voice agent to talk to, so `connect` is null
+export function createWhisperLiveProvider(config: WhisperConfig): LiveProvider {
+  const transcriber = createWhisperTranscriptionProvider(config);
+
+  return {
+    kind: 'whisper',
+    model: config.model,
+    openTranscriptionChannel: (input) => createUtteranceChannel(transcriber, input),
+    connect: null
+  };
+}
@@ -0,0 +1,260 @@
+import { LiveConnectConfig, LiveSendRealtimeInputParameters } from '@google/genai';
+import { TranscriptMode } from '../types';
+import { openDatabase, requestToPromise, transactionDone } from './indexedDb';
+import { LiveConnection } from './liveConnection';
+import { FixtureEvent, FixtureMessage, LiveFixture } from './mockLiveConnection';
+
+// Opt-in debugging aid: everything a Live session sent and received is kept,
+// with timestamps, in IndexedDB, so a bad transcript can be exported as one
+// archive and replayed offline through the same pipeline and UI. What was
+// received is stored in the fixture format, so replay is the mock connection.
+
+const DB_NAME = 'eburon-recordings';
+const RECORDINGS = 'recordings';
+const CHUNKS = 'chunks';
+const ENABLED_KEY = 'eburon.recordSessions';
+// Audio piles up quickly; it is written out in chunks rather than kept in memory
+const FLUSH_INTERVAL_MS = 2000;
+const ARCHIVE_FORMAT = 'eburon-session-recording';
+const ARCHIVE_VERSION = 1;
+
+export interface RecordedInput {
+  // Milliseconds after the link was opened, outages left out (as in fixtures)
+  at: number;
+  input: LiveSendRealtimeInputParameters;
+}
+
+export interface RecordingInfo {
+  id: string;
+  startedAt: string;
+  // null while recording, or if the tab closed before the session ended
+  endedAt: string | null;
+  provider: string;
+  model: string;
+  config: LiveConnectConfig;
+  messageCount: number;
+  inputCount: number;
+}
+
+export interface SessionRecording extends RecordingInfo {
+  received: FixtureEvent[];
+  sent: RecordedInput[];
+}
+
+export interface RecordingArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  recording: SessionRecording;
+}
+
+interface RecordingChunk {
+  recordingId: string;
+  seq: number;
+  received: FixtureEvent[];
+  sent: RecordedInput[];
+}
+
+const db = () => openDatabase(DB_NAME, 1, database => {
+  if (!database.objectStoreNames.contains(RECORDINGS)) {
+    database.createObjectStore(RECORDINGS, { keyPath: 'id' });
+  }
+  if (!database.objectStoreNames.contains(CHUNKS)) {
+    const chunks = database.createObjectStore(CHUNKS, { keyPath: ['recordingId', 'seq'] });
+    chunks.createIndex('recordingId', 'recordingId');
+  }
+});
+
+export function isRecordingEnabled(): boolean {
+  return typeof localStorage !== 'undefined' && localStorage.getItem(ENABLED_KEY) === 'true';
+}
+
+export function setRecordingEnabled(enabled: boolean) {
+  if (enabled) localStorage.setItem(ENABLED_KEY, 'true');
+  else localStorage.removeItem(ENABLED_KEY);
+}
+
+// Sessions that produced replies were Live conversations; the rest were the Transcriber's
+export function recordedMode(info: RecordingInfo): TranscriptMode {
+  return info.config.outputAudioTranscription ? 'live' : 'batch';
+}
+
+async function writeChunk(info: RecordingInfo, chunk: RecordingChunk | null) {
+  const tx = (await db()).transaction([RECORDINGS, CHUNKS], 'readwrite');
+  tx.objectStore(RECORDINGS).put(info);
+  if (chunk) tx.objectStore(CHUNKS).put(chunk);
+  await transactionDone(tx);
+}
+
+// Records the traffic of `connection` and hands it on unchanged
+export function recordConnection(
+  connection: LiveConnection,
+  details: { provider: string, model: string, config: LiveConnectConfig }
+): LiveConnection {
+  const info: RecordingInfo = {
+    id: crypto.randomUUID(),
+    startedAt: new Date().toISOString(),
+    endedAt: null,
+    ...details,
+    messageCount: 0,
+    inputCount: 0
+  };
+  const origin = Date.now();
+  // Time spent reconnecting; replay adds the outage back itself
+  let offline = 0;
+  let downAt: number | null = null;
+  const elapsed = () => Date.now() - origin - offline;
+
+  let seq = 0;
+  let received: FixtureEvent[] = [];
+  let sent: RecordedInput[] = [];
+  // Writes go out one at a time so chunks land in order
+  let writing: Promise<void> = Promise.resolve();
+
+  const flush = () => {
+    const chunk = received.length || sent.length ? { recordingId: info.id, seq: seq++, received, sent } : null;
+    received = [];
+    sent = [];
+    const snapshot = { ...info };
+    writing = writing
+      .then(() => writeChunk(snapshot, chunk))
+      .catch(e => console.warn('Session recording could not be saved', e));
+  };
+
+  const timer = setInterval(flush, FLUSH_INTERVAL_MS);
+  const finish = () => {
+    if (info.endedAt) return;
+    clearInterval(timer);
+    info.endedAt = new Date().toISOString();
+    flush();
+  };
+
+  connection.onopen = () => recorded.onopen?.();
+  connection.onmessage = (msg) => {
+    // Own properties only: the response getters are derived from them
+    received.push({ at: elapsed(), message: { ...msg } as FixtureMessage });
+    info.messageCount++;
+    recorded.onmessage?.(msg);
+  };
+  connection.onstatechange = (state) => {
+    if (state === 'reconnecting') downAt = downAt ?? elapsed();
+    if (state === 'closed') finish();
+    recorded.onstatechange?.(state);
+  };
+  connection.ongap = (gap) => {
+    const durationMs = gap.to.getTime() - gap.from.getTime();
+    received.push({ at: downAt ?? elapsed(), drop: { durationMs, resumed: gap.resumed } });
+    offline += durationMs;
+    downAt = null;
+    recorded.ongap?.(gap);
+  };
+  connection.onclose = (error) => {
+    finish();
+    recorded.onclose?.(error);
+  };
+
+  const recorded: LiveConnection = {
+    get state() {
+      return connection.state;
+    },
+    onopen: null,
+    onmessage: null,
+    onstatechange: null,
+    ongap: null,
+    onclose: null,
+
+    send(input) {
+      if (connection.state !== 'closed') {
+        sent.push({ at: elapsed(), input });
+        info.inputCount++;
+      }
+      connection.send(input);
+    },
+
+    close() {
+      connection.close();
+      finish();
+    }
+  };
+
+  flush();
+  return recorded;
+}
+
+export async function listRecordings(): Promise<RecordingInfo[]> {
+  const tx = (await db()).transaction(RECORDINGS, 'readonly');
+  const recordings = await requestToPromise(tx.objectStore(RECORDINGS).getAll()) as RecordingInfo[];
+  return recordings.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+export async function loadRecording(id: string): Promise<SessionRecording | null> {
+  const tx = (await db()).transaction([RECORDINGS, CHUNKS], 'readonly');
+  const info = await requestToPromise(tx.objectStore(RECORDINGS).get(id)) as RecordingInfo | undefined;
+  if (!info) return null;
+  const chunks = await requestToPromise(tx.objectStore(CHUNKS).index('recordingId').getAll(id)) as RecordingChunk[];
+  chunks.sort((a, b) => a.seq - b.seq);
+  return {
+    ...info,
+    received: chunks.flatMap(chunk => chunk.received),
+    sent: chunks.flatMap(chunk => chunk.sent)
+  };
+}
+
+export async function deleteRecording(id: string) {
+  const tx = (await db()).transaction([RECORDINGS, CHUNKS], 'readwrite');
+  tx.objectStore(RECORDINGS).delete(id);
+  const chunks = tx.objectStore(CHUNKS);
+  const keys = await requestToPromise(chunks.index('recordingId').getAllKeys(id));
+  keys.forEach(key => chunks.delete(key));
+  await transactionDone(tx);
+}
+
+// One self-contained JSON file, small enough to attach to a bug report
+export function exportRecording(recording: SessionRecording) {
+  const archive: RecordingArchive = { format: ARCHIVE_FORMAT, version: ARCHIVE_VERSION, recording };
+  const blob = new Blob([JSON.stringify(archive)], { type: 'application/json;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const stamp = recording.startedAt.slice(0, 19).replace(/[:T]/g, '-');
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `eburon-recording-${stamp}.json`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+export function parseArchive(json: string): SessionRecording {
+  let archive: Partial<RecordingArchive>;
+  try {
+    archive = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not a session recording.');
+  }
+  if (archive?.format !== ARCHIVE_FORMAT || !archive.recording) {
+    throw new Error('The file is not a session recording.');
+  }
+  if (archive.version !== ARCHIVE_VERSION) {
+    throw new Error(`Unsupported recording version ${archive.version}.`);
+  }
+  const { recording } = archive;
+  if (!Array.isArray(recording.received) || !Array.isArray(recording.sent) || !recording.config) {
+    throw new Error('The session recording is incomplete.');
+  }
+  return recording;
+}
+
+// Archives from a bug report are kept alongside local recordings
+export async function importRecording(file: File): Promise<SessionRecording> {
+  const { received, sent, ...info } = parseArchive(await file.text());
+  await writeChunk(info, { recordingId: info.id, seq: 0, received, sent });
+  return { ...info, received, sent };
+}
+
+export function recordingToFixture(recording: SessionRecording): LiveFixture {
+  return {
+    name: recording.id,
+    description: `${recording.provider} (${recording.model}) session recorded ${recording.startedAt}`,
+    events: recording.received
+  };
+}
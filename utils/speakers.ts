@@ -0,0 +1,96 @@
+import { AudioSource, Message, SpeakerSpan } from '../types';
+
+// Display names the user picked, keyed by the speaker id the model emitted ("Speaker 1")
+export type SpeakerNames = Record<string, string>;
+
+// Speaker ids for dual-channel transcripts, where attribution comes from the capture itself
+export const SOURCE_LABELS: Record<AudioSource, string> = {
+  local: 'Local',
+  remote: 'Remote'
+};
+
+// Only diarization and source labels: "[Speaker 1]" or "[Local]" (optionally
+// followed by ":") anywhere, or "Speaker 2:" at the start of a line, also when
+// set in Markdown bold. Never an arbitrary "Word:" prefix.
+const SPEAKER_LABEL = /(?:\*\*|__)?\[\s*((?:Speaker|Voice)\s*\d+|Local|Remote)\s*\]\s*:?(?:\*\*|__)?|^[ \t]*(?:\*\*|__)?((?:Speaker|Voice)\s*\d+)(?:\*\*|__)?[ \t]*:(?:\*\*|__)?/gim;
+
+const SPEAKER_STYLES = [
+  'text-cyan-300 bg-cyan-900/30 border-cyan-500/30',
+  'text-purple-300 bg-purple-900/30 border-purple-500/30',
+  'text-emerald-300 bg-emerald-900/30 border-emerald-500/30',
+  'text-amber-300 bg-amber-900/30 border-amber-500/30',
+  'text-pink-300 bg-pink-900/30 border-pink-500/30'
+];
+
+// "speaker  2" and "[SPEAKER 2]" are the same voice
+export function normalizeSpeakerId(label: string): string {
+  const [, word, number] = label.trim().match(/^([A-Za-z]+)\s*(\d*)$/) ?? [];
+  if (!word) return label.trim();
+  const name = `${word[0].toUpperCase()}${word.slice(1).toLowerCase()}`;
+  return number ? `${name} ${number}` : name;
+}
+
+// Splits diarized text into speaker turns; text up to the next label belongs
+// to the previous one, and text before the first label gets a null speaker.
+// Returns null when the text carries no labels at all.
+export function parseSpeakerSpans(text: string): SpeakerSpan[] | null {
+  const spans: SpeakerSpan[] = [];
+  let speakerId: string | null = null;
+  let cursor = 0;
+
+  const pushText = (end: number) => {
+    // Line breaks are kept: a reply's lists and code under a speaker still render as Markdown
+    const content = text.slice(cursor, end).replace(/[ \t]+/g, ' ').replace(/ ?\n ?/g, '\n').trim();
+    if (content) spans.push({ speakerId, text: content });
+  };
+
+  for (const match of text.matchAll(SPEAKER_LABEL)) {
+    pushText(match.index);
+    speakerId = normalizeSpeakerId(match[1] ?? match[2]);
+    cursor = match.index + match[0].length;
+  }
+  if (speakerId === null) return null;
+  pushText(text.length);
+  return spans;
+}
+
+// Typed spans when the message has them, otherwise parsed from its text (e.g. turns loaded from history)
+export function messageSpeakers(msg: Message): SpeakerSpan[] | null {
+  return msg.speakers ?? parseSpeakerSpans(msg.text);
+}
+
+export function speakerName(speakerId: string, names: SpeakerNames): string {
+  return names[speakerId]?.trim() || speakerId;
+}
+
+// Numbered speakers keep their color everywhere ("Speaker 1" is always the
+// first style); anything else is hashed so it is at least stable across renders.
+export function speakerStyle(speakerId: string): string {
+  const number = speakerId.match(/(\d+)$/);
+  let index: number;
+  if (number) {
+    index = parseInt(number[1], 10) - 1;
+  } else {
+    index = [...speakerId].reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) | 0, 0);
+  }
+  const n = SPEAKER_STYLES.length;
+  return SPEAKER_STYLES[((index % n) + n) % n];
+}
+
+// Speaker ids in order of first appearance
+export function collectSpeakers(messages: Message[]): string[] {
+  const ids = new Set<string>();
+  messages.forEach(msg => messageSpeakers(msg)?.forEach(span => {
+    if (span.speakerId) ids.add(span.speakerId);
+  }));
+  return [...ids];
+}
+
+// Reads the names saved with a session, ignoring anything malformed
+export function speakerNamesFrom(metadata: Record<string, unknown>): SpeakerNames {
+  const stored = metadata.speakerNames;
+  if (!stored || typeof stored !== 'object') return {};
+  return Object.fromEntries(
+    Object.entries(stored as Record<string, unknown>).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+  );
+}
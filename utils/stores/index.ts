@@ -0,0 +1,54 @@
+import { TranscriptStore, TranscriptStoreKind } from '../transcriptStore';
+import { supabase } from '../supabaseClient';
+import { createSupabaseStore } from './supabaseStore';
+import { createIndexedDbStore } from './indexedDbStore';
+import { createRestStore } from './restStore';
+import { createMemoryStore } from './memoryStore';
+import { isDemoMode } from '../providers';
+
+const STORE_KINDS: TranscriptStoreKind[] = ['supabase', 'indexeddb', 'rest', 'memory'];
+const STORAGE_KEY = 'eburon.transcriptStore';
+
+const isStoreKind = (value: unknown): value is TranscriptStoreKind =>
+  STORE_KINDS.includes(value as TranscriptStoreKind);
+
+// Run-time choice (`?store=indexeddb` or localStorage) wins over the build-time
+// TRANSCRIPT_STORE setting, which defaults to Supabase. Demo sessions stay in
+// memory unless a store is asked for explicitly.
+export function resolveStoreKind(): TranscriptStoreKind {
+  if (typeof window !== 'undefined') {
+    const fromQuery = new URLSearchParams(window.location.search).get('store');
+    if (isStoreKind(fromQuery)) {
+      localStorage.setItem(STORAGE_KEY, fromQuery);
+      return fromQuery;
+    }
+    if (isDemoMode()) return 'memory';
+    const remembered = localStorage.getItem(STORAGE_KEY);
+    if (isStoreKind(remembered)) return remembered;
+  }
+  return isStoreKind(process.env.TRANSCRIPT_STORE) ? process.env.TRANSCRIPT_STORE : 'supabase';
+}
+
+export function createTranscriptStore(kind: TranscriptStoreKind): TranscriptStore {
+  switch (kind) {
+    case 'indexeddb':
+      return createIndexedDbStore();
+    case 'rest':
+      if (!process.env.TRANSCRIPT_API_URL) {
+        throw new Error('TRANSCRIPT_API_URL must be set to use the REST transcript store.');
+      }
+      return createRestStore(process.env.TRANSCRIPT_API_URL);
+    case 'memory':
+      return createMemoryStore();
+    case 'supabase':
+    default:
+      return createSupabaseStore(supabase);
+  }
+}
+
+let activeStore: TranscriptStore | null = null;
+
+export function getTranscriptStore(): TranscriptStore {
+  if (!activeStore) activeStore = createTranscriptStore(resolveStoreKind());
+  return activeStore;
+}
@@ -0,0 +1,59 @@
+import { TranscriptStore, StoredSession, TurnWrite, applySessionWrite, sortTurns, toMessage, toSession } from '../transcriptStore';
+import { openDatabase, requestToPromise, transactionDone } from '../indexedDb';
+
+const DB_NAME = 'eburon-transcripts';
+const SESSIONS = 'sessions';
+const TURNS = 'turns';
+
+// Keeps transcripts in the browser only. Nothing leaves the device.
+export function createIndexedDbStore(): TranscriptStore {
+  const db = () => openDatabase(DB_NAME, 1, database => {
+    if (!database.objectStoreNames.contains(SESSIONS)) {
+      database.createObjectStore(SESSIONS, { keyPath: 'id' });
+    }
+    if (!database.objectStoreNames.contains(TURNS)) {
+      const turns = database.createObjectStore(TURNS, { keyPath: 'id' });
+      turns.createIndex('sessionId', 'sessionId');
+    }
+  });
+
+  return {
+    async save(write) {
+      const tx = (await db()).transaction([SESSIONS, TURNS], 'readwrite');
+      if (write.kind === 'turn') {
+        tx.objectStore(TURNS).put(write);
+      } else {
+        const sessions = tx.objectStore(SESSIONS);
+        const existing = await requestToPromise(sessions.get(write.id)) as StoredSession | undefined;
+        sessions.put(applySessionWrite(existing, write));
+      }
+      await transactionDone(tx);
+    },
+
+    async listSessions(limit = 50) {
+      const tx = (await db()).transaction(SESSIONS, 'readonly');
+      const sessions = await requestToPromise(tx.objectStore(SESSIONS).getAll()) as StoredSession[];
+      return sessions
+        .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+        .slice(0, limit)
+        .map(toSession);
+    },
+
+    async getSession(id) {
+      const tx = (await db()).transaction([SESSIONS, TURNS], 'readonly');
+      const session = await requestToPromise(tx.objectStore(SESSIONS).get(id)) as StoredSession | undefined;
+      if (!session) return null;
+      const turns = await requestToPromise(tx.objectStore(TURNS).index('sessionId').getAll(id)) as TurnWrite[];
+      return { session: toSession(session), turns: sortTurns(turns).map(toMessage) };
+    },
+
+    async deleteSession(id) {
+      const tx = (await db()).transaction([SESSIONS, TURNS], 'readwrite');
+      tx.objectStore(SESSIONS).delete(id);
+      const turns = tx.objectStore(TURNS);
+      const keys = await requestToPromise(turns.index('sessionId').getAllKeys(id));
+      keys.forEach(key => turns.delete(key));
+      await transactionDone(tx);
+    }
+  };
+}
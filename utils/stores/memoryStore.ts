@@ -0,0 +1,38 @@
+import { TranscriptStore, StoredSession, TurnWrite, applySessionWrite, sortTurns, toMessage, toSession } from '../transcriptStore';
+
+// Keeps everything in the page. Useful for demos and tests; nothing survives a reload.
+export function createMemoryStore(): TranscriptStore {
+  const sessions = new Map<string, StoredSession>();
+  const turns = new Map<string, TurnWrite>();
+
+  return {
+    async save(write) {
+      if (write.kind === 'turn') {
+        if (!turns.has(write.id)) turns.set(write.id, write);
+        return;
+      }
+      sessions.set(write.id, applySessionWrite(sessions.get(write.id), write));
+    },
+
+    async listSessions(limit = 50) {
+      return [...sessions.values()]
+        .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+        .slice(0, limit)
+        .map(toSession);
+    },
+
+    async getSession(id) {
+      const session = sessions.get(id);
+      if (!session) return null;
+      const sessionTurns = [...turns.values()].filter(turn => turn.sessionId === id);
+      return { session: toSession(session), turns: sortTurns(sessionTurns).map(toMessage) };
+    },
+
+    async deleteSession(id) {
+      sessions.delete(id);
+      turns.forEach((turn, key) => {
+        if (turn.sessionId === id) turns.delete(key);
+      });
+    }
+  };
+}
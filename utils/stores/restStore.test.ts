@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createRestStore } from './restStore';
+import { TranscriptWrite } from '../transcriptStore';
+import { RejectedWriteError } from '../persistenceQueue';
+
+const WRITE: TranscriptWrite = { kind: 'session-start', id: 's1', mode: 'live', metadata: {}, startedAt: '2025-01-01T10:00:00.000Z' };
+
+// Every request gets `status` back
+function respondWith(status: number, body: unknown = null) {
+  const fetch = vi.fn(async () => new Response(body === null ? null : JSON.stringify(body), { status }));
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+describe('createRestStore', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('posts writes with an idempotency key', async () => {
+    const fetch = respondWith(204);
+    await createRestStore('https://example.test/api/').save(WRITE);
+    expect(fetch).toHaveBeenCalledWith('https://example.test/api/writes', expect.objectContaining({
+      method: 'POST',
+      headers: expect.objectContaining({ 'Idempotency-Key': 'session-start:s1' })
+    }));
+  });
+
+  it.each([404, 400, 500])('fails a write answered with %i so the queue keeps it', async (status) => {
+    respondWith(status);
+    await expect(createRestStore('https://example.test').save(WRITE)).rejects.toThrow(`responded ${status}`);
+  });
+
+  it('marks client errors as rejections, but not timeouts, rate limits or server errors', async () => {
+    const store = createRestStore('https://example.test');
+    for (const status of [400, 404, 422]) {
+      respondWith(status);
+      await expect(store.save(WRITE)).rejects.toBeInstanceOf(RejectedWriteError);
+    }
+    for (const status of [408, 429, 503]) {
+      respondWith(status);
+      await expect(store.save(WRITE)).rejects.not.toBeInstanceOf(RejectedWriteError);
+    }
+  });
+
+  it('fails listing sessions on a 404', async () => {
+    respondWith(404);
+    await expect(createRestStore('https://example.test').listSessions()).rejects.toThrow('responded 404');
+  });
+
+  it('treats an unknown session as missing, and deleting one as done', async () => {
+    respondWith(404);
+    const store = createRestStore('https://example.test');
+    await expect(store.getSession('gone')).resolves.toBeNull();
+    await expect(store.deleteSession('gone')).resolves.toBeUndefined();
+  });
+
+  it('fails reading a session on a server error', async () => {
+    respondWith(500);
+    await expect(createRestStore('https://example.test').getSession('s1')).rejects.toThrow('responded 500');
+  });
+});
@@ -0,0 +1,52 @@
+import { TranscriptStore, StoredSession, TurnWrite, sortTurns, toMessage, toSession } from '../transcriptStore';
+import { RejectedWriteError } from '../persistenceQueue';
+
+// Talks to any HTTP service implementing:
+//   POST   {baseUrl}/writes         body: TranscriptWrite, header Idempotency-Key
+//   GET    {baseUrl}/sessions?limit  -> StoredSession[]
+//   GET    {baseUrl}/sessions/:id    -> { session: StoredSession, turns: TurnWrite[] } (404 when unknown)
+//   DELETE {baseUrl}/sessions/:id
+export function createRestStore(baseUrl: string): TranscriptStore {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  // Only reads and deletes of one session may 404 (it is unknown or already gone);
+  // anything else must fail, or the persistence queue would drop the write
+  const request = async (path: string, init?: RequestInit, allowNotFound = false) => {
+    const response = await fetch(`${root}${path}`, init);
+    if (!response.ok && !(allowNotFound && response.status === 404)) {
+      const message = `Transcript service responded ${response.status}`;
+      // Other client errors mean the request itself is wrong; timeouts and rate limits can pass
+      const rejected = response.status >= 400 && response.status < 500 && response.status !== 408 && response.status !== 429;
+      throw rejected ? new RejectedWriteError(message) : new Error(message);
+    }
+    return response;
+  };
+
+  return {
+    async save(write) {
+      const key = write.kind === 'session-update' ? `${write.kind}:${write.id}:${write.updatedAt}` : `${write.kind}:${write.id}`;
+      await request('/writes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Idempotency-Key': key },
+        body: JSON.stringify(write)
+      });
+    },
+
+    async listSessions(limit = 50) {
+      const response = await request(`/sessions?limit=${limit}`);
+      const sessions = await response.json() as StoredSession[];
+      return sessions.map(toSession);
+    },
+
+    async getSession(id) {
+      const response = await request(`/sessions/${encodeURIComponent(id)}`, undefined, true);
+      if (response.status === 404) return null;
+      const body = await response.json() as { session: StoredSession, turns: TurnWrite[] };
+      return { session: toSession(body.session), turns: sortTurns(body.turns).map(toMessage) };
+    },
+
+    async deleteSession(id) {
+      await request(`/sessions/${encodeURIComponent(id)}`, { method: 'DELETE' }, true);
+    }
+  };
+}
@@ -0,0 +1,111 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { TranscriptStore } from '../transcriptStore';
+import { RejectedWriteError } from '../persistenceQueue';
+
+// Tables are described in the README. Upserts keyed on the client-generated id
+// make retried writes no-ops.
+export function createSupabaseStore(supabase: SupabaseClient): TranscriptStore {
+  return {
+    async save(write) {
+      let error: { message: string, code?: string } | null = null;
+
+      if (write.kind === 'session-start') {
+        ({ error } = await supabase
+          .from('transcript_sessions')
+          .upsert([{ id: write.id, mode: write.mode, metadata: write.metadata, started_at: write.startedAt }], { onConflict: 'id', ignoreDuplicates: true }));
+      } else if (write.kind === 'session-end') {
+        ({ error } = await supabase
+          .from('transcript_sessions')
+          .update({ ended_at: write.endedAt, metadata: write.metadata })
+          .eq('id', write.id));
+      } else if (write.kind === 'session-update') {
+        ({ error } = await supabase
+          .from('transcript_sessions')
+          .update({ metadata: write.metadata })
+          .eq('id', write.id));
+      } else {
+        ({ error } = await supabase
+          .from('transcripts')
+          .upsert([
+            {
+              client_id: write.id,
+              content: write.content,
+              role: write.role,
+              mode: write.mode,
+              session_id: write.sessionId,
+              turn_index: write.turnIndex,
+              created_at: write.createdAt,
+              translation: write.translation ?? null,
+              language: write.language ?? null
+            }
+          ], { onConflict: 'client_id', ignoreDuplicates: true }));
+      }
+
+      // Postgres data, integrity and schema errors (classes 22, 23, 42) won't go away on retry
+      if (error) throw /^(22|23|42)/.test(error.code ?? '') ? new RejectedWriteError(error.message) : new Error(error.message);
+    },
+
+    async listSessions(limit = 50) {
+      const { data, error } = await supabase
+        .from('transcript_sessions')
+        .select('id, mode, metadata, started_at, ended_at')
+        .order('started_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw new Error(error.message);
+
+      return (data || []).map(row => ({
+        id: row.id,
+        mode: row.mode,
+        startedAt: new Date(row.started_at),
+        endedAt: row.ended_at ? new Date(row.ended_at) : null,
+        metadata: row.metadata || {}
+      }));
+    },
+
+    async getSession(id) {
+      const { data: session, error: sessionError } = await supabase
+        .from('transcript_sessions')
+        .select('id, mode, metadata, started_at, ended_at')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (sessionError) throw new Error(sessionError.message);
+      if (!session) return null;
+
+      const { data, error } = await supabase
+        .from('transcripts')
+        .select('id, client_id, content, role, created_at, turn_index, translation, language')
+        .eq('session_id', id)
+        .order('turn_index', { ascending: true });
+
+      if (error) throw new Error(error.message);
+
+      return {
+        session: {
+          id: session.id,
+          mode: session.mode,
+          startedAt: new Date(session.started_at),
+          endedAt: session.ended_at ? new Date(session.ended_at) : null,
+          metadata: session.metadata || {}
+        },
+        turns: (data || []).map(row => ({
+          id: String(row.client_id ?? row.id),
+          role: row.role,
+          text: row.content,
+          timestamp: new Date(row.created_at),
+          ...(row.translation && { translation: row.translation }),
+          ...(row.language && { language: row.language })
+        }))
+      };
+    },
+
+    async deleteSession(id) {
+      const { error: turnsError } = await supabase.from('transcripts').delete().eq('session_id', id);
+      if (turnsError) throw new Error(turnsError.message);
+
+      const { error } = await supabase.from('transcript_sessions').delete().eq('id', id);
+      if (error) throw new Error(error.message);
+    }
+  };
+}
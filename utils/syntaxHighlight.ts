@@ -0,0 +1,138 @@
+// Lightweight highlighting for code blocks in replies: comments, strings,
+// numbers and keywords for the languages Gemini answers in most. Anything it
+// doesn't know gets the C-like rules, which suit most other languages well enough.
+
+export type TokenKind = 'plain' | 'comment' | 'string' | 'number' | 'keyword';
+
+export interface Token {
+  kind: TokenKind;
+  text: string;
+}
+
+interface Grammar {
+  comment: RegExp[];
+  string: RegExp[];
+  keywords: Set<string>;
+}
+
+const words = (list: string) => new Set(list.split(' '));
+
+const C_COMMENTS = [/\/\/.*/y, /\/\*[\s\S]*?(?:\*\/|$)/y];
+const HASH_COMMENT = [/#.*/y];
+const QUOTED = [/"(?:\\.|[^"\\\n])*"?/y, /'(?:\\.|[^'\\\n])*'?/y];
+
+const JS_KEYWORDS = words('const let var function return if else for while do switch case break continue new class extends import export from default async await try catch finally throw typeof instanceof in of this super null undefined true false interface type enum implements public private protected readonly static yield void delete as');
+
+const GRAMMARS: Record<string, Grammar> = {
+  js: {
+    comment: C_COMMENTS,
+    string: [...QUOTED, /`(?:\\.|[^`\\])*`?/y],
+    keywords: JS_KEYWORDS
+  },
+  python: {
+    comment: HASH_COMMENT,
+    string: [/("""|''')[\s\S]*?(?:\1|$)/y, ...QUOTED],
+    keywords: words('def return if elif else for while in not and or is import from as class try except finally raise with lambda yield pass break continue None True False self async await global nonlocal')
+  },
+  shell: {
+    comment: HASH_COMMENT,
+    string: QUOTED,
+    keywords: words('if then else elif fi for while until do done case esac function in export local return echo exit sudo cd set unset source')
+  },
+  sql: {
+    comment: [/--.*/y, /\/\*[\s\S]*?(?:\*\/|$)/y],
+    string: QUOTED,
+    keywords: words('select from where and or not insert into values update set delete create table alter drop join left right inner outer full on group by order having limit offset as distinct null is in like between primary key references default union all exists case when then else end returning')
+  },
+  json: {
+    comment: [],
+    string: [/"(?:\\.|[^"\\\n])*"?/y],
+    keywords: words('true false null')
+  },
+  css: {
+    comment: [/\/\*[\s\S]*?(?:\*\/|$)/y],
+    string: QUOTED,
+    keywords: words('important media import from to root')
+  },
+  markup: {
+    comment: [/<!--[\s\S]*?(?:-->|$)/y],
+    string: QUOTED,
+    keywords: words('')
+  },
+  c: {
+    comment: C_COMMENTS,
+    string: QUOTED,
+    keywords: words('int long short float double char bool boolean void byte string auto const static struct enum union typedef sizeof return if else for while do switch case break continue goto default new delete class public private protected virtual override final abstract interface extends implements import package namespace using template typename try catch finally throw throws true false null nullptr this self super fn let mut pub use impl match mod crate trait where func go defer chan map range select var type val fun when object')
+  }
+};
+
+const ALIASES: Record<string, string> = {
+  javascript: 'js', jsx: 'js', ts: 'js', typescript: 'js', tsx: 'js', mjs: 'js', cjs: 'js',
+  py: 'python', python3: 'python',
+  sh: 'shell', bash: 'shell', zsh: 'shell', shell: 'shell', console: 'shell',
+  postgres: 'sql', postgresql: 'sql', mysql: 'sql', sqlite: 'sql',
+  html: 'markup', xml: 'markup', svg: 'markup', vue: 'markup',
+  scss: 'css', less: 'css'
+};
+
+const NUMBER = /(?:0x[\da-f]+|\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?)\b/iy;
+const WORD = /[A-Za-z_$][\w$]*/y;
+
+function grammarFor(language: string | null): Grammar {
+  const name = (language ?? '').toLowerCase();
+  return GRAMMARS[ALIASES[name] ?? name] ?? GRAMMARS.c;
+}
+
+function matchAt(patterns: RegExp[], code: string, at: number): string | null {
+  for (const pattern of patterns) {
+    pattern.lastIndex = at;
+    const match = pattern.exec(code);
+    if (match && match[0]) return match[0];
+  }
+  return null;
+}
+
+export function highlight(code: string, language: string | null): Token[] {
+  const grammar = grammarFor(language);
+  // SQL is case-insensitive; elsewhere keywords are matched as written
+  const caseless = grammar === GRAMMARS.sql;
+  const tokens: Token[] = [];
+  const push = (kind: TokenKind, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.kind === kind) last.text += text;
+    else tokens.push({ kind, text });
+  };
+
+  let i = 0;
+  while (i < code.length) {
+    const comment = matchAt(grammar.comment, code, i);
+    if (comment) {
+      push('comment', comment);
+      i += comment.length;
+      continue;
+    }
+    const string = matchAt(grammar.string, code, i);
+    if (string) {
+      push('string', string);
+      i += string.length;
+      continue;
+    }
+    // Numbers and words only count from the start of a word
+    const startOfWord = i === 0 || !/[\w$]/.test(code[i - 1]);
+    const number = startOfWord ? matchAt([NUMBER], code, i) : null;
+    if (number) {
+      push('number', number);
+      i += number.length;
+      continue;
+    }
+    const word = startOfWord ? matchAt([WORD], code, i) : null;
+    if (word) {
+      push(grammar.keywords.has(caseless ? word.toLowerCase() : word) ? 'keyword' : 'plain', word);
+      i += word.length;
+      continue;
+    }
+    push('plain', code[i]);
+    i++;
+  }
+  return tokens;
+}
@@ -0,0 +1,257 @@
+import { Message, SpeakerSpan, TranscriptSegment } from '../types';
+import { SpeakerNames, messageSpeakers, normalizeSpeakerId, parseSpeakerSpans, speakerName } from './speakers';
+
+export type ExportFormat = 'srt' | 'vtt' | 'json' | 'md' | 'txt';
+
+export const EXPORT_FORMATS: { format: ExportFormat, label: string }[] = [
+  { format: 'srt', label: 'SubRip (.srt)' },
+  { format: 'vtt', label: 'WebVTT (.vtt)' },
+  { format: 'json', label: 'JSON (.json)' },
+  { format: 'md', label: 'Markdown (.md)' },
+  { format: 'txt', label: 'Plain Text (.txt)' }
+];
+
+// Times are seconds from the start of the recording
+export interface TranscriptCue {
+  start: number;
+  end: number;
+  speaker: string;
+  role: Message['role'];
+  text: string;
+  // Translator Mode: the translation paired with `text`
+  translation?: string;
+  // Language `text` was spoken in, when the turn recorded one
+  language?: string;
+}
+
+export interface ExportableTranscript {
+  title: string;
+  startedAt: Date;
+  language?: string;
+  cues: TranscriptCue[];
+}
+
+const WORDS_PER_SECOND = 2.5;
+const MIN_CUE_SECONDS = 1;
+// Two subtitle lines of ~42 characters is what most video tools expect
+const MAX_CUE_CHARS = 84;
+
+const ROLE_SPEAKERS: Record<Message['role'], string> = {
+  user: 'User',
+  model: 'EBURON',
+  system: 'System'
+};
+
+const estimateSeconds = (text: string) =>
+  Math.max(MIN_CUE_SECONDS, text.trim().split(/\s+/).length / WORDS_PER_SECOND);
+
+// Each labelled voice gets its own cue, under its display name. Text without
+// any speaker labels becomes one part per line, attributed to `fallback`.
+function splitSpeakers(text: string, fallback: string, names: SpeakerNames = {}, spans: SpeakerSpan[] | null = parseSpeakerSpans(text)): { speaker: string, text: string }[] {
+  if (!spans) {
+    return text
+      .split('\n')
+      .map(line => line.trim())
+      .filter(Boolean)
+      .map(line => ({ speaker: fallback, text: line }));
+  }
+  return spans.map(span => ({ speaker: span.speakerId ? speakerName(span.speakerId, names) : fallback, text: span.text }));
+}
+
+// Breaks a cue that is too long for a subtitle into sentence-sized pieces,
+// sharing its time span out by length.
+function splitLongCue(cue: TranscriptCue): TranscriptCue[] {
+  if (cue.text.length <= MAX_CUE_CHARS) return [cue];
+
+  const pieces: string[] = [];
+  let current = '';
+  for (const word of cue.text.split(/\s+/)) {
+    if (current && (current + ' ' + word).length > MAX_CUE_CHARS) {
+      pieces.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) pieces.push(current);
+
+  const total = pieces.reduce((sum, p) => sum + p.length, 0);
+  let cursor = cue.start;
+  return pieces.map(piece => {
+    const start = cursor;
+    cursor += (cue.end - cue.start) * (piece.length / total);
+    return { ...cue, start, end: cursor, text: piece };
+  });
+}
+
+// Messages only carry the time they were completed, so each cue ends at its
+// message timestamp and starts an estimated speaking duration earlier (never
+// before the previous cue ended). Unlabelled lines are attributed to
+// `defaultSpeaker`, or to a name derived from the message role.
+export function cuesFromMessages(messages: Message[], startedAt: Date, defaultSpeaker?: string, speakerNames: SpeakerNames = {}): TranscriptCue[] {
+  const cues: TranscriptCue[] = [];
+  let previousEnd = 0;
+
+  messages
+    .filter(msg => msg.role !== 'system' && msg.text.trim())
+    .forEach(msg => {
+      const fallback = defaultSpeaker ?? ROLE_SPEAKERS[msg.role];
+      const language = msg.language && { language: msg.language };
+      const end = Math.max(previousEnd + MIN_CUE_SECONDS, (msg.timestamp.getTime() - startedAt.getTime()) / 1000);
+
+      // A translated pair stays one cue so original and translation line up
+      if (msg.translation) {
+        const start = Math.max(previousEnd, end - estimateSeconds(msg.text));
+        cues.push({ start, end, speaker: fallback, role: msg.role, text: msg.text.trim(), translation: msg.translation.text, ...language });
+        previousEnd = end;
+        return;
+      }
+
+      const parts = splitSpeakers(msg.text, fallback, speakerNames, messageSpeakers(msg));
+      const duration = parts.reduce((sum, p) => sum + estimateSeconds(p.text), 0);
+      let cursor = Math.max(previousEnd, end - duration);
+      const scale = (end - cursor) / duration;
+
+      parts.forEach(part => {
+        const start = cursor;
+        cursor += estimateSeconds(part.text) * scale;
+        cues.push(...splitLongCue({ start, end: cursor, speaker: part.speaker, role: msg.role, text: part.text, ...language }));
+      });
+      previousEnd = end;
+    });
+
+  return cues;
+}
+
+// Segments from structured transcription already carry real timings
+export function cuesFromSegments(segments: TranscriptSegment[], speakerNames: SpeakerNames = {}): TranscriptCue[] {
+  return segments.flatMap(segment => splitLongCue({
+    start: segment.start,
+    end: Math.max(segment.end, segment.start + MIN_CUE_SECONDS),
+    speaker: speakerName(normalizeSpeakerId(segment.speaker), speakerNames),
+    role: 'model',
+    text: segment.text
+  }));
+}
+
+// For plain text without any timing, cues are laid end to end at an average speaking rate
+export function cuesFromText(text: string, role: Message['role'] = 'model'): TranscriptCue[] {
+  const cues: TranscriptCue[] = [];
+  let cursor = 0;
+
+  text
+    .split(/\n+|(?<=[.!?])\s+/)
+    .flatMap(sentence => splitSpeakers(sentence, 'Speaker'))
+    .forEach(part => {
+      const start = cursor;
+      cursor += estimateSeconds(part.text);
+      cues.push(...splitLongCue({ start, end: cursor, speaker: part.speaker, role, text: part.text }));
+    });
+
+  return cues;
+}
+
+const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+
+export function formatTimestamp(seconds: number, separator: ',' | '.' = '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor((totalMs % 3600000) / 60000);
+  const s = Math.floor((totalMs % 60000) / 1000);
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(totalMs % 1000, 3)}`;
+}
+
+const shortTimestamp = (seconds: number) => formatTimestamp(seconds).slice(0, 8);
+
+// Subtitle formats show a translation as a second line under the original
+const withTranslation = (text: string, cue: TranscriptCue) => cue.translation ? `${text}\n${cue.translation}` : text;
+
+function toSrt(transcript: ExportableTranscript): string {
+  return transcript.cues
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${withTranslation(`${cue.speaker}: ${cue.text}`, cue)}`)
+    .join('\n\n') + '\n';
+}
+
+function toVtt(transcript: ExportableTranscript): string {
+  const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const body = transcript.cues
+    .map(cue => `${formatTimestamp(cue.start)} --> ${formatTimestamp(cue.end)}\n<v ${escape(cue.speaker)}>${escape(withTranslation(cue.text, cue))}`)
+    .join('\n\n');
+  return `WEBVTT\n\n${body}\n`;
+}
+
+function toJson(transcript: ExportableTranscript): string {
+  return JSON.stringify({
+    title: transcript.title,
+    language: transcript.language ?? null,
+    startedAt: transcript.startedAt.toISOString(),
+    speakers: [...new Set(transcript.cues.map(cue => cue.speaker))],
+    cues: transcript.cues.map(cue => ({
+      start: Number(cue.start.toFixed(3)),
+      end: Number(cue.end.toFixed(3)),
+      speaker: cue.speaker,
+      role: cue.role,
+      text: cue.text,
+      ...(cue.translation && { translation: cue.translation }),
+      ...(cue.language && { language: cue.language })
+    }))
+  }, null, 2);
+}
+
+function toMarkdown(transcript: ExportableTranscript): string {
+  const header = [
+    `# ${transcript.title}`,
+    '',
+    `- Started: ${transcript.startedAt.toLocaleString()}`,
+    ...(transcript.language ? [`- Language: ${transcript.language}`] : []),
+    ''
+  ];
+  const lines = transcript.cues.map(cue =>
+    `**[${shortTimestamp(cue.start)}] ${cue.speaker}:** ${cue.text}${cue.translation ? `\n> ${cue.translation}` : ''}`
+  );
+  return [...header, lines.join('\n\n')].join('\n') + '\n';
+}
+
+function toText(transcript: ExportableTranscript): string {
+  return transcript.cues
+    .map(cue => `[${shortTimestamp(cue.start)}] ${cue.speaker}: ${cue.text}${cue.translation ? `\n           ${cue.translation}` : ''}`)
+    .join('\n') + '\n';
+}
+
+export function formatTranscript(transcript: ExportableTranscript, format: ExportFormat): string {
+  switch (format) {
+    case 'srt': return toSrt(transcript);
+    case 'vtt': return toVtt(transcript);
+    case 'json': return toJson(transcript);
+    case 'md': return toMarkdown(transcript);
+    case 'txt': return toText(transcript);
+  }
+}
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  json: 'application/json',
+  md: 'text/markdown',
+  txt: 'text/plain'
+};
+
+// Saves `content` as "<title>-<start time>.<extension>"
+export function downloadFile(content: string, mimeType: string, name: { title: string, startedAt: Date, extension: string }) {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const stamp = name.startedAt.toISOString().slice(0, 19).replace(/[:T]/g, '-');
+  const slug = name.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${slug || 'transcript'}-${stamp}.${name.extension}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+export function downloadTranscript(transcript: ExportableTranscript, format: ExportFormat) {
+  downloadFile(formatTranscript(transcript, format), MIME_TYPES[format], { title: transcript.title, startedAt: transcript.startedAt, extension: format });
+}
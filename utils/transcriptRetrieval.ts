@@ -0,0 +1,157 @@
+import { Citation, Message } from '../types';
+import { TranscriptAttachment } from './chatThreads';
+
+// Grounds Fast Chat on saved transcripts. Each transcript is cut into short
+// passages with stable ids ("T1.3" is the third passage of the first
+// attachment) that replies cite. When everything fits, the model sees all of
+// it; otherwise passages are ranked by the words they share with the question
+// and only the best ones are sent.
+
+// Characters per passage: a minute or so of speech, enough to quote from
+const PASSAGE_CHARS = 1200;
+// What goes into the prompt alongside the conversation before passages are picked
+const CONTEXT_BUDGET_CHARS = 32000;
+const EXCERPT_CHARS = 280;
+
+const STOPWORDS = new Set((
+  'a an and are as at be but by can did do does for from had has have he her him his how i if in into is it its ' +
+  'me my no not of on or our she so that the their them then there they this to up us was we were what when ' +
+  'where which who why will with would you your about also any been could just more should than these those'
+).split(' '));
+
+export type Passage = Citation;
+
+const terms = (text: string) => (text.toLowerCase().match(/[\p{L}\p{N}]{2,}/gu) ?? []).filter(word => !STOPWORDS.has(word));
+
+// Long turns (an upload without segments is one turn) are cut at sentence ends
+function splitLong(text: string): string[] {
+  if (text.length <= PASSAGE_CHARS) return [text];
+  const pieces: string[] = [];
+  let current = '';
+  for (const sentence of text.split(/(?<=[.!?。！？])\s+|\n+/)) {
+    if (current && current.length + sentence.length + 1 > PASSAGE_CHARS) {
+      pieces.push(current);
+      current = '';
+    }
+    current = current ? `${current} ${sentence}` : sentence;
+    // A single run-on sentence is cut wherever it has to be
+    while (current.length > PASSAGE_CHARS) {
+      pieces.push(current.slice(0, PASSAGE_CHARS));
+      current = current.slice(PASSAGE_CHARS);
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+// Live turns are labelled by who spoke; transcriber turns already carry their speaker
+function turnLine(turn: Message, mode: TranscriptAttachment['mode']): string {
+  const text = turn.translation ? `${turn.text} (${turn.translation.targetLanguage}: ${turn.translation.text})` : turn.text;
+  if (mode === 'batch') return text;
+  return `${turn.role === 'user' ? 'User' : 'EBURON'}: ${text}`;
+}
+
+export function chunkTranscript(source: number, attachment: TranscriptAttachment, turns: Message[]): Passage[] {
+  const passages: Passage[] = [];
+  let lines: string[] = [];
+  let length = 0;
+  let offsetSeconds: number | null = null;
+
+  const push = () => {
+    if (lines.length === 0) return;
+    passages.push({
+      id: `T${source}.${passages.length + 1}`,
+      sessionId: attachment.sessionId,
+      title: attachment.title,
+      offsetSeconds,
+      text: lines.join('\n')
+    });
+    lines = [];
+    length = 0;
+    offsetSeconds = null;
+  };
+
+  // Gap markers and other system notes say nothing about what was said
+  const spoken = turns.filter(turn => turn.role !== 'system');
+  // An uploaded file is saved all at once, so its turn times say nothing about where they were spoken
+  const timed = spoken.length > 1 && spoken[spoken.length - 1].timestamp.getTime() - spoken[0].timestamp.getTime() >= 1000;
+  spoken.forEach(turn => {
+    const at = timed ? Math.max(0, Math.round((turn.timestamp.getTime() - attachment.startedAt.getTime()) / 1000)) : null;
+    splitLong(turnLine(turn, attachment.mode)).forEach(piece => {
+      if (length > 0 && length + piece.length > PASSAGE_CHARS) push();
+      if (lines.length === 0) offsetSeconds = at;
+      lines.push(piece);
+      length += piece.length + 1;
+    });
+  });
+  push();
+  return passages;
+}
+
+// Passages for `question`, in transcript order. Everything when it fits; else
+// the best matches by TF-IDF, or an even spread when nothing matches (e.g. "summarize this").
+export function selectPassages(question: string, passages: Passage[], budget = CONTEXT_BUDGET_CHARS): { passages: Passage[], complete: boolean } {
+  const total = passages.reduce((sum, passage) => sum + passage.text.length, 0);
+  if (total <= budget) return { passages, complete: true };
+
+  const passageTerms = passages.map(passage => terms(passage.text));
+  const documentFrequency = new Map<string, number>();
+  passageTerms.forEach(words => new Set(words).forEach(word => documentFrequency.set(word, (documentFrequency.get(word) ?? 0) + 1)));
+
+  const queryTerms = [...new Set(terms(question))];
+  const scores = passageTerms.map(words => {
+    const counts = new Map<string, number>();
+    words.forEach(word => counts.set(word, (counts.get(word) ?? 0) + 1));
+    return queryTerms.reduce((score, term) => {
+      const tf = counts.get(term) ?? 0;
+      if (tf === 0) return score;
+      return score + (1 + Math.log(tf)) * Math.log(1 + passages.length / documentFrequency.get(term)!);
+    }, 0);
+  });
+
+  const ranked = scores.some(score => score > 0)
+    ? passages.map((_, i) => i).filter(i => scores[i] > 0).sort((a, b) => scores[b] - scores[a])
+    : evenSpread(passages.length, Math.max(1, Math.floor(passages.length * budget / total)));
+
+  const chosen = new Set<number>();
+  let used = 0;
+  for (const i of ranked) {
+    if (used + passages[i].text.length > budget) continue;
+    chosen.add(i);
+    used += passages[i].text.length;
+  }
+  return { passages: passages.filter((_, i) => chosen.has(i)), complete: false };
+}
+
+function evenSpread(count: number, take: number): number[] {
+  if (take >= count) return Array.from({ length: count }, (_, i) => i);
+  return Array.from({ length: take }, (_, i) => Math.floor(i * count / take));
+}
+
+export const formatOffset = (seconds: number) => `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+
+// Appended to the thread's own system prompt for one request
+export function contextInstruction(attachments: TranscriptAttachment[], passages: Passage[], complete: boolean): string {
+  const sections = attachments.map((attachment, i) => {
+    const own = passages.filter(passage => passage.sessionId === attachment.sessionId);
+    const body = own.length > 0
+      ? own.map(passage => `[${passage.id}]${passage.offsetSeconds !== null ? ` (${formatOffset(passage.offsetSeconds)})` : ''}\n${passage.text}`).join('\n\n')
+      : '(no passages selected)';
+    return `=== Transcript T${i + 1}: ${attachment.title} ===\n${body}`;
+  });
+
+  return [
+    'The user is asking about the recorded transcripts below. Answer from them, and cite every passage you rely on by its id in square brackets, e.g. [T1.2]. If the transcripts do not contain the answer, say so instead of guessing.',
+    complete ? '' : 'The transcripts are too long to include in full; only the passages most relevant to the question are shown.',
+    ...sections
+  ].filter(Boolean).join('\n\n');
+}
+
+// The passages a reply cited, in the order first cited
+export function citedPassages(reply: string, passages: Passage[]): Citation[] {
+  const ids = [...reply.matchAll(/\bT\d+\.\d+\b/g)].map(match => match[0]);
+  return [...new Set(ids)]
+    .map(id => passages.find(passage => passage.id === id))
+    .filter((passage): passage is Passage => Boolean(passage))
+    .map(passage => ({ ...passage, text: passage.text.length > EXCERPT_CHARS ? `${passage.text.slice(0, EXCERPT_CHARS - 1)}…` : passage.text }));
+}
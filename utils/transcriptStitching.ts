@@ -0,0 +1,77 @@
+import { TranscriptSegment } from '../types';
+
+// Transcription of one chunk, with segment times already offset to the whole file
+export interface ChunkTranscript {
+  start: number;
+  end: number;
+  segments: TranscriptSegment[];
+  // False when the chunk fell back to plain text: its single segment spans the
+  // whole chunk and carries no usable timing.
+  timed: boolean;
+}
+
+// How many trailing words of the transcript so far are compared against the
+// start of the next chunk. Covers a few seconds of overlap at any speaking rate.
+const MAX_OVERLAP_WORDS = 50;
+const MIN_OVERLAP_WORDS = 2;
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+
+// Drops the longest run of words at the start of `text` that repeats the end of `previousWords`
+export function trimRepeatedPrefix(previousWords: string[], text: string): string {
+  const tokens = text.split(/\s+/).filter(Boolean);
+  const normalizedPrevious = previousWords.map(normalizeWord);
+  const normalizedTokens = tokens.map(normalizeWord);
+  const limit = Math.min(MAX_OVERLAP_WORDS, tokens.length, normalizedPrevious.length);
+
+  for (let k = limit; k >= MIN_OVERLAP_WORDS; k--) {
+    const suffix = normalizedPrevious.slice(normalizedPrevious.length - k);
+    if (suffix.every((word, i) => word === normalizedTokens[i])) {
+      return tokens.slice(k).join(' ');
+    }
+  }
+  return text;
+}
+
+const trailingWords = (segments: TranscriptSegment[]) => {
+  const words: string[] = [];
+  for (let i = segments.length - 1; i >= 0 && words.length < MAX_OVERLAP_WORDS; i--) {
+    words.unshift(...segments[i].text.split(/\s+/).filter(Boolean));
+  }
+  return words.slice(-MAX_OVERLAP_WORDS);
+};
+
+// Joins chunk transcripts into one timeline. Each overlap is split at its
+// midpoint: the earlier chunk keeps segments starting before it, the later
+// chunk those starting after. Words that both chunks still heard around the
+// seam are then removed from the later chunk.
+export function stitchChunks(chunks: ChunkTranscript[]): TranscriptSegment[] {
+  let result: TranscriptSegment[] = [];
+
+  chunks.forEach((chunk, i) => {
+    let incoming = chunk.segments;
+
+    if (i > 0) {
+      const seam = (chunk.start + chunks[i - 1].end) / 2;
+      if (chunk.timed) {
+        // Only the previous chunk has segments this late; earlier chunks all end before `chunk.start`
+        result = result.filter(segment => segment.start < seam);
+        incoming = incoming.filter(segment => segment.start >= seam);
+      }
+
+      const previousWords = trailingWords(result);
+      const last = result[result.length - 1];
+      const [first, ...rest] = incoming;
+      if (first) {
+        const text = trimRepeatedPrefix(previousWords, first.text);
+        incoming = text
+          ? [{ ...first, text, start: last ? Math.max(first.start, last.start) : first.start }, ...rest]
+          : rest;
+      }
+    }
+
+    result = [...result, ...incoming];
+  });
+
+  return result;
+}
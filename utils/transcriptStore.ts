@@ -0,0 +1,88 @@
+import { Message, TranscriptMode, TranscriptSession, TurnTranslation } from '../types';
+
+// Everything persisted goes through a store as one of these records. Timestamps
+// are taken when the record is created, not when it finally reaches the store,
+// and `id` doubles as the idempotency key: saving the same record twice must be a no-op.
+// A session-update (e.g. renamed speakers) carries the session's complete
+// metadata and is keyed by `id` plus `updatedAt`, since one session can get many.
+export type TranscriptWrite =
+  | { kind: 'session-start'; id: string; mode: TranscriptMode; metadata: Record<string, unknown>; startedAt: string }
+  | { kind: 'session-end'; id: string; metadata: Record<string, unknown>; endedAt: string }
+  | { kind: 'session-update'; id: string; metadata: Record<string, unknown>; updatedAt: string }
+  | { kind: 'turn'; id: string; sessionId: string | null; turnIndex: number | null; content: string; role: string; mode: TranscriptMode; createdAt: string; translation?: TurnTranslation | null; language?: string | null };
+
+export type TurnWrite = Extract<TranscriptWrite, { kind: 'turn' }>;
+
+export interface SessionWithTurns {
+  session: TranscriptSession;
+  turns: Message[];
+}
+
+export interface TranscriptStore {
+  save(write: TranscriptWrite): Promise<void>;
+  listSessions(limit?: number): Promise<TranscriptSession[]>;
+  getSession(id: string): Promise<SessionWithTurns | null>;
+  deleteSession(id: string): Promise<void>;
+}
+
+export type TranscriptStoreKind = 'supabase' | 'indexeddb' | 'rest' | 'memory';
+
+// JSON-safe session row used by the local and REST stores
+export interface StoredSession {
+  id: string;
+  mode: TranscriptMode;
+  metadata: Record<string, unknown>;
+  startedAt: string;
+  endedAt: string | null;
+}
+
+export function toSession(stored: StoredSession): TranscriptSession {
+  return {
+    id: stored.id,
+    mode: stored.mode,
+    metadata: stored.metadata || {},
+    startedAt: new Date(stored.startedAt),
+    endedAt: stored.endedAt ? new Date(stored.endedAt) : null
+  };
+}
+
+export function toMessage(turn: TurnWrite): Message {
+  return {
+    id: turn.id,
+    role: turn.role as Message['role'],
+    text: turn.content,
+    timestamp: new Date(turn.createdAt),
+    ...(turn.translation && { translation: turn.translation }),
+    ...(turn.language && { language: turn.language })
+  };
+}
+
+// Applies a session write to an existing row (or none). A session-end that
+// arrives for an unknown session still produces a row so nothing is dropped.
+export function applySessionWrite(existing: StoredSession | undefined, write: Exclude<TranscriptWrite, TurnWrite>): StoredSession {
+  if (write.kind === 'session-start') {
+    return existing ?? { id: write.id, mode: write.mode, metadata: write.metadata, startedAt: write.startedAt, endedAt: null };
+  }
+  if (write.kind === 'session-update') {
+    return {
+      id: write.id,
+      mode: existing?.mode ?? 'live',
+      startedAt: existing?.startedAt ?? write.updatedAt,
+      metadata: { ...existing?.metadata, ...write.metadata },
+      endedAt: existing?.endedAt ?? null
+    };
+  }
+  return {
+    id: write.id,
+    mode: existing?.mode ?? 'live',
+    startedAt: existing?.startedAt ?? write.endedAt,
+    metadata: { ...existing?.metadata, ...write.metadata },
+    endedAt: write.endedAt
+  };
+}
+
+export function sortTurns(turns: TurnWrite[]): TurnWrite[] {
+  return [...turns].sort((a, b) =>
+    (a.turnIndex ?? 0) - (b.turnIndex ?? 0) || a.createdAt.localeCompare(b.createdAt)
+  );
+}
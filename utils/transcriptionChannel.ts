@@ -0,0 +1,124 @@
+import { LiveConnectConfig, LiveServerMessage, Modality } from '@google/genai';
+import { arrayBufferToBase64 } from './audioUtils';
+import { createPcmCapture, PcmCapture, PcmFrame, PCM_MIME_TYPE, frameDurationMs } from './pcmCapture';
+import { getCaptureSettings } from './audioCapture';
+import { createVadGate } from './voiceActivity';
+import { LiveConnection, LinkGap, LinkState } from './liveConnection';
+import { createTurnAssembler, TranscriptEvent } from './turnAssembly';
+
+// One audio node streamed to its own Live session for transcription only:
+// capture worklet -> voice activity gate -> reconnecting Live link (opened
+// through `connect`, so a provider can supply a real or a mock one). The
+// Transcriber runs one of these on the mixed input, or one per source in
+// dual-channel mode so every line is attributed to the side that spoke.
+
+export interface ChannelTurn {
+  text: string;
+  // When speech (or, without the VAD, its first words) started, and when the turn was closed
+  startedAt: Date;
+  endedAt: Date;
+}
+
+export interface TranscriptionChannel {
+  ontext: ((text: string) => void) | null;
+  onturn: ((turn: ChannelTurn) => void) | null;
+  onspeech: ((isSpeech: boolean) => void) | null;
+  onstatechange: ((state: LinkState) => void) | null;
+  ongap: ((gap: LinkGap) => void) | null;
+  onclose: ((reason: string) => void) | null;
+  // Closes the turn in progress and tears the channel down; resolves once every
+  // turn has been reported through onturn
+  stop(): Promise<void>;
+}
+
+export async function createTranscriptionChannel(
+  connect: (config: LiveConnectConfig) => LiveConnection,
+  input: AudioNode,
+  options: { systemInstruction: string }
+): Promise<TranscriptionChannel> {
+  const processor: PcmCapture = await createPcmCapture(input.context as AudioContext);
+  input.connect(processor.node);
+
+  const vad = createVadGate({
+    sensitivity: getCaptureSettings().vadSensitivity,
+    frameDurationMs: frameDurationMs()
+  });
+
+  const connection = connect({
+    responseModalities: [Modality.AUDIO],
+    speechConfig: {
+      voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } },
+    },
+    inputAudioTranscription: {},
+    systemInstruction: options.systemInstruction,
+  });
+
+  const assembler = createTurnAssembler({
+    mode: 'transcription',
+    idPrefix: crypto.randomUUID(),
+    sourceLanguage: null,
+    targetLanguage: null
+  });
+
+  const handleTranscript = (events: TranscriptEvent[]) => events.forEach(event => {
+    if (event.type !== 'final') return;
+    const { text, startedAt, endedAt } = event.turn;
+    channel.onturn?.({ text, startedAt: startedAt ?? endedAt, endedAt });
+  });
+
+  const commitTurn = () => handleTranscript(assembler.dispatch({ type: 'flush', at: new Date() }));
+
+  // Buffered by the connection while it is (re)connecting
+  const sendFrame = ({ pcm }: PcmFrame) => {
+    connection.send({
+      media: { mimeType: PCM_MIME_TYPE, data: arrayBufferToBase64(pcm) }
+    });
+  };
+
+  processor.onframe = (frame) => {
+    const { vadEnabled, vadSensitivity } = getCaptureSettings();
+    if (!vadEnabled) {
+      sendFrame(frame);
+      return;
+    }
+
+    vad.setSensitivity(vadSensitivity);
+    const result = vad.process(frame);
+    channel.onspeech?.(result.isSpeech);
+    if (result.event === 'speech-start') assembler.dispatch({ type: 'speech-start', at: new Date() });
+    result.frames.forEach(sendFrame);
+    if (result.event === 'speech-end') {
+      connection.send({ audioStreamEnd: true });
+    }
+  };
+
+  connection.onstatechange = (state) => {
+    // The interrupted turn won't get its turnComplete
+    if (state === 'reconnecting') commitTurn();
+    channel.onstatechange?.(state);
+  };
+  connection.ongap = (gap) => channel.ongap?.(gap);
+  connection.onclose = (reason) => channel.onclose?.(reason);
+
+  connection.onmessage = (msg: LiveServerMessage) => {
+    const text = msg.serverContent?.inputTranscription?.text;
+    if (text) channel.ontext?.(text);
+    handleTranscript(assembler.receive(msg, new Date()));
+  };
+
+  const channel: TranscriptionChannel = {
+    ontext: null,
+    onturn: null,
+    onspeech: null,
+    onstatechange: null,
+    ongap: null,
+    onclose: null,
+    stop: async () => {
+      commitTurn();
+      processor.stop();
+      connection.close();
+    }
+  };
+
+  return channel;
+}
@@ -0,0 +1,34 @@
+import { LiveConnectConfig } from '@google/genai';
+import { TranscriptSegment } from '../types';
+import { LiveConnection } from './liveConnection';
+import { TranscriptionChannel } from './transcriptionChannel';
+
+// The speech backend the UI talks to. Gemini is the default; an OpenAI-compatible
+// transcription endpoint (e.g. a local whisper.cpp server) keeps audio on-prem,
+// and the mock replays recorded sessions for demos and tests.
+
+// 'replay' is never chosen by configuration; it stands in while a recording is replayed
+export type ProviderKind = 'gemini' | 'whisper' | 'mock' | 'replay';
+
+export interface FileTranscription {
+  // null when the backend didn't return usable segments and we fell back to plain text
+  segments: TranscriptSegment[] | null;
+  text: string;
+}
+
+export interface TranscriptionProvider {
+  kind: ProviderKind;
+  // Recorded with sessions
+  model: string;
+  // One request for a whole recording; long files are chunked by the caller
+  transcribe(audio: Blob): Promise<FileTranscription>;
+}
+
+export interface LiveProvider {
+  kind: ProviderKind;
+  model: string;
+  // Streams one audio node and reports what was said, without any replies
+  openTranscriptionChannel(input: AudioNode, options: { systemInstruction: string }): Promise<TranscriptionChannel>;
+  // Two-way voice session for the Live agent; null when the backend only transcribes
+  connect: ((config: LiveConnectConfig) => LiveConnection) | null;
+}
@@ -0,0 +1,97 @@
+import { Message, TranscriptMode, TranscriptSession, TurnTranslation } from '../types';
+import { TranscriptWrite } from './transcriptStore';
+import { getTranscriptStore } from './stores';
+import { createPersistenceQueue } from './persistenceQueue';
+
+export type { TranscriptMode };
+
+// Writes are buffered locally and flushed to whichever store is configured
+export const transcriptQueue = createPersistenceQueue<TranscriptWrite>(write => getTranscriptStore().save(write));
+
+// Handle returned by startSession. Turn indexes are handed out synchronously so
+// rows keep their spoken order even when the writes are flushed later.
+export interface SessionHandle {
+  id: string;
+  mode: TranscriptMode;
+  metadata: Record<string, unknown>;
+  turnIndex: number;
+}
+
+export function startSession(mode: TranscriptMode, metadata: Record<string, unknown> = {}): SessionHandle {
+  const id = crypto.randomUUID();
+  transcriptQueue.enqueue(`session-start:${id}`, {
+    kind: 'session-start',
+    id,
+    mode,
+    metadata,
+    startedAt: new Date().toISOString()
+  });
+  return { id, mode, metadata, turnIndex: 0 };
+}
+
+export async function endSession(session: SessionHandle, metadata: Record<string, unknown> = {}) {
+  session.metadata = { ...session.metadata, ...metadata, turns: session.turnIndex };
+  await transcriptQueue.enqueue(`session-end:${session.id}`, {
+    kind: 'session-end',
+    id: session.id,
+    metadata: session.metadata,
+    endedAt: new Date().toISOString()
+  });
+}
+
+// Replaces the stored metadata of a session, including one that has already ended
+export async function updateSessionMetadata(sessionId: string, metadata: Record<string, unknown>) {
+  const updatedAt = new Date().toISOString();
+  await transcriptQueue.enqueue(`session-update:${sessionId}:${updatedAt}`, {
+    kind: 'session-update',
+    id: sessionId,
+    metadata,
+    updatedAt
+  });
+}
+
+// `translation` pairs a translated turn with the original `content` it came from;
+// `language` is the language `content` was spoken in
+export async function saveTranscript(
+  content: string,
+  role: string,
+  mode: TranscriptMode,
+  session?: SessionHandle,
+  details: { translation?: TurnTranslation, language?: string | null } = {}
+) {
+  const { translation, language } = details;
+  if (!content) return;
+
+  // Kept on the session (and written out when it ends) so History can filter sessions without loading their turns
+  if (session && language) {
+    const languages = Array.isArray(session.metadata.languages) ? session.metadata.languages as string[] : [];
+    if (!languages.includes(language)) session.metadata = { ...session.metadata, languages: [...languages, language] };
+  }
+
+  const id = crypto.randomUUID();
+  await transcriptQueue.enqueue(`turn:${id}`, {
+    kind: 'turn',
+    id,
+    sessionId: session?.id ?? null,
+    turnIndex: session ? session.turnIndex++ : null,
+    content,
+    role,
+    mode,
+    createdAt: new Date().toISOString(),
+    ...(translation && { translation }),
+    ...(language && { language })
+  });
+}
+
+export function listSessions(limit = 50): Promise<TranscriptSession[]> {
+  return getTranscriptStore().listSessions(limit);
+}
+
+export async function getSessionTurns(sessionId: string): Promise<Message[]> {
+  const result = await getTranscriptStore().getSession(sessionId);
+  return result ? result.turns : [];
+}
+
+export function deleteSession(sessionId: string): Promise<void> {
+  return getTranscriptStore().deleteSession(sessionId);
+}
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { LiveServerMessage } from '@google/genai';
+import { AssemblyOptions, FinalTurn, TranscriptEvent, createTurnAssembler, initialTurnState, reduceTurn } from './turnAssembly';
+
+const CONVERSATION: AssemblyOptions = { mode: 'conversation', idPrefix: 's', sourceLanguage: null, targetLanguage: null };
+const TRANSLATION: AssemblyOptions = { mode: 'translation', idPrefix: 's', sourceLanguage: null, targetLanguage: 'English' };
+
+const at = new Date('2025-01-01T10:00:00Z');
+const message = (serverContent: LiveServerMessage['serverContent']) => Object.assign(new LiveServerMessage(), { serverContent });
+const finals = (events: TranscriptEvent[]): FinalTurn[] => events.flatMap(event => (event.type === 'final' ? [event.turn] : []));
+
+describe('reduceTurn', () => {
+  it('commits input and output that arrive in the same message, user first', () => {
+    const assembler = createTurnAssembler(CONVERSATION);
+    const events = assembler.receive(message({
+      inputTranscription: { text: 'Thanks. ' },
+      outputTranscription: { text: '[LANG:English] You are welcome. ' },
+      turnComplete: true
+    }), at);
+
+    expect(events.filter(event => event.type === 'partial')).toEqual([
+      { type: 'partial', role: 'model', text: 'You are welcome.' },
+      { type: 'partial', role: 'user', text: 'Thanks. ' }
+    ]);
+    expect(finals(events).map(turn => [turn.id, turn.role, turn.text, turn.language])).toEqual([
+      ['s-1-user', 'user', 'Thanks.', 'English'],
+      ['s-2-model', 'model', 'You are welcome.', 'English']
+    ]);
+    expect(assembler.state).toMatchObject({ input: '', output: '', outputPieces: [] });
+  });
+
+  it('trims an interrupted reply to what had started playing', () => {
+    const assembler = createTurnAssembler(CONVERSATION);
+    assembler.dispatch({ type: 'output', text: '[LANG:English] Sure. ', at, playAt: 0 });
+    assembler.dispatch({ type: 'output', text: 'Let me walk ', at, playAt: 1 });
+    assembler.dispatch({ type: 'output', text: 'you through it.', at, playAt: 2 });
+    const events = assembler.dispatch({ type: 'interrupted', heardUntil: 1.5, at });
+
+    expect(events[0]).toEqual({ type: 'interrupted', heardText: 'Sure. Let me walk' });
+    expect(finals(events)).toMatchObject([{ role: 'model', text: 'Sure. Let me walk', interrupted: true, language: 'English' }]);
+    // Nothing of the reply is left to commit with the turn
+    expect(finals(assembler.dispatch({ type: 'turn-complete', at }))).toEqual([]);
+  });
+
+  it('reads unclosed tags and falls back to the last language when the tag is missing', () => {
+    const assembler = createTurnAssembler(CONVERSATION);
+    const first = assembler.receive(message({ outputTranscription: { text: '[lang:Spanish Son las tres. ' }, turnComplete: true }), at);
+    expect(finals(first)).toMatchObject([{ text: 'Son las tres.', language: 'Spanish' }]);
+
+    const second = assembler.receive(message({ outputTranscription: { text: 'De nada. ' }, turnComplete: true }), at);
+    expect(second[second.length - 2]).toEqual({ type: 'language', language: 'Spanish' });
+    expect(finals(second)).toMatchObject([{ text: 'De nada.', language: 'Spanish' }]);
+  });
+
+  it('prefers the chosen source language and the script of the input over a stale tag', () => {
+    const chosen = createTurnAssembler({ ...CONVERSATION, sourceLanguage: 'French' });
+    expect(finals(chosen.receive(message({ inputTranscription: { text: 'Bonjour' }, turnComplete: true }), at))).toMatchObject([{ language: 'French' }]);
+
+    const detected = createTurnAssembler(CONVERSATION);
+    detected.receive(message({ outputTranscription: { text: '[LANG:English] Hi. ' }, turnComplete: true }), at);
+    expect(finals(detected.receive(message({ inputTranscription: { text: '会議室は三階です。' }, turnComplete: true }), at)))
+      .toMatchObject([{ language: 'Japanese' }]);
+  });
+
+  it('leaves the language unset when a tag names nothing usable', () => {
+    const assembler = createTurnAssembler(CONVERSATION);
+    const events = assembler.receive(message({ outputTranscription: { text: '[LANG: unknown] Hello there. ' }, turnComplete: true }), at);
+    expect(events.some(event => event.type === 'language')).toBe(false);
+    expect(finals(events)).toMatchObject([{ text: 'Hello there.', language: null }]);
+  });
+
+  it('pairs an original with its translation', () => {
+    const assembler = createTurnAssembler(TRANSLATION);
+    assembler.dispatch({ type: 'speech-start', at });
+    assembler.dispatch({ type: 'input', text: 'Buenos días. ', at: new Date(at.getTime() + 500) });
+    assembler.dispatch({ type: 'output', text: '[LANG:Spanish] Good morning. ', at, playAt: 0 });
+    const end = new Date(at.getTime() + 2000);
+    const turns = finals(assembler.dispatch({ type: 'turn-complete', at: end }));
+
+    expect(turns).toEqual([{
+      id: 's-1-user',
+      role: 'user',
+      text: 'Buenos días.',
+      startedAt: at,
+      endedAt: end,
+      language: 'Spanish',
+      speakers: null,
+      translation: { text: 'Good morning.', sourceLanguage: 'Spanish', targetLanguage: 'English' },
+      interrupted: false
+    }]);
+  });
+
+  it('keeps an interrupted translation paired and marked', () => {
+    const assembler = createTurnAssembler(TRANSLATION);
+    assembler.dispatch({ type: 'input', text: 'El informe está casi terminado. ', at });
+    assembler.dispatch({ type: 'output', text: '[LANG:Spanish] The report ', at, playAt: 0 });
+    assembler.dispatch({ type: 'output', text: 'is almost finished.', at, playAt: 5 });
+    expect(assembler.dispatch({ type: 'interrupted', heardUntil: 1, at })).toEqual([{ type: 'interrupted', heardText: 'The report' }]);
+
+    expect(finals(assembler.dispatch({ type: 'turn-complete', at }))).toMatchObject([
+      { role: 'user', text: 'El informe está casi terminado.', translation: { text: 'The report' }, interrupted: true }
+    ]);
+  });
+
+  it('keeps a one-sided translation turn as a plain turn', () => {
+    const assembler = createTurnAssembler(TRANSLATION);
+    assembler.dispatch({ type: 'input', text: 'Hola. ', at });
+    expect(finals(assembler.dispatch({ type: 'turn-complete', at }))).toMatchObject([{ role: 'user', text: 'Hola.', translation: null }]);
+  });
+
+  it('announces each diarized speaker once per session', () => {
+    const assembler = createTurnAssembler(CONVERSATION);
+    const first = assembler.receive(message({
+      outputTranscription: { text: '[LANG:English] [Speaker 1]: Shall we start? [Speaker 2]: Yes. ' },
+      turnComplete: true
+    }), at);
+    expect(first.filter(event => event.type === 'speaker')).toEqual([
+      { type: 'speaker', speakerId: 'Speaker 1' },
+      { type: 'speaker', speakerId: 'Speaker 2' }
+    ]);
+    expect(finals(first)[0].speakers?.map(span => span.text)).toEqual(['Shall we start?', 'Yes.']);
+
+    const second = assembler.receive(message({
+      outputTranscription: { text: '[LANG:English] [Speaker 2]: Agreed. [Speaker 3]: Me too. ' },
+      turnComplete: true
+    }), at);
+    expect(second.filter(event => event.type === 'speaker')).toEqual([{ type: 'speaker', speakerId: 'Speaker 3' }]);
+  });
+
+  it('commits a pending turn on flush and nothing when there is none', () => {
+    const options = { ...CONVERSATION, mode: 'transcription' as const };
+    const started = reduceTurn(initialTurnState, { type: 'input', text: 'Welcome to the ', at }, options);
+    const pending = reduceTurn(started.state, { type: 'input', text: 'weekly sync.', at }, options);
+    const flushed = reduceTurn(pending.state, { type: 'flush', at }, options);
+
+    expect(finals(flushed.events)).toMatchObject([{ id: 's-1-user', text: 'Welcome to the weekly sync.', startedAt: at }]);
+    expect(flushed.state).toMatchObject({ input: '', startedAt: null, turnCount: 1 });
+    expect(reduceTurn(flushed.state, { type: 'flush', at }, options).events).toEqual([]);
+  });
+
+  it('ignores replies when only transcribing', () => {
+    const options = { ...CONVERSATION, mode: 'transcription' as const };
+    const step = reduceTurn(initialTurnState, { type: 'output', text: 'Hello', at, playAt: 0 }, options);
+    expect(step).toEqual({ state: initialTurnState, events: [] });
+  });
+});
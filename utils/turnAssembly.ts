@@ -0,0 +1,272 @@
+import { LiveServerMessage } from '@google/genai';
+import { SpeakerSpan, TurnTranslation } from '../types';
+import { detectScriptLanguage, parseLanguageTag } from './languageTags';
+import { parseSpeakerSpans } from './speakers';
+
+// Turns Live API traffic into transcript turns. The reducer is pure: server
+// events go in, the next state and typed transcript events come out, with
+// times and playback positions supplied by the caller. LiveAgent and the
+// transcription channels feed it through createTurnAssembler.
+
+export type AssemblyMode =
+  // Agent conversation: what the user said, then the model's reply
+  | 'conversation'
+  // Translator: the original and its translation become one paired turn
+  | 'translation'
+  // Input only, nobody replies
+  | 'transcription';
+
+export interface AssemblyOptions {
+  mode: AssemblyMode;
+  // Prefix for turn ids; unique per session so ids never collide across sessions
+  idPrefix: string;
+  // Language the user said they speak; null for auto-detect
+  sourceLanguage: string | null;
+  // Translation mode only
+  targetLanguage: string | null;
+}
+
+export type ServerEvent =
+  | { type: 'speech-start', at: Date }
+  | { type: 'input', text: string, at: Date }
+  // `playAt` is the playback time the text's audio was due, for trimming on barge-in
+  | { type: 'output', text: string, at: Date, playAt: number }
+  // The user talked over the model; `heardUntil` is the playback time it was cut at
+  | { type: 'interrupted', heardUntil: number, at: Date }
+  | { type: 'turn-complete', at: Date }
+  // The turn ends without its turnComplete: the link dropped or the session stopped
+  | { type: 'flush', at: Date };
+
+export interface FinalTurn {
+  id: string;
+  role: 'user' | 'model';
+  text: string;
+  // When the first words (or speech) arrived, and when the turn was committed
+  startedAt: Date | null;
+  endedAt: Date;
+  language: string | null;
+  speakers: SpeakerSpan[] | null;
+  translation: TurnTranslation | null;
+  interrupted: boolean;
+}
+
+export type TranscriptEvent =
+  // Text of the turn in progress so far, tag stripped
+  | { type: 'partial', role: 'user' | 'model', text: string }
+  // Language resolved for the turn being committed
+  | { type: 'language', language: string }
+  // The reply was cut off; `heardText` is what was played before it stopped
+  | { type: 'interrupted', heardText: string }
+  // First appearance of a diarized speaker in the session
+  | { type: 'speaker', speakerId: string }
+  | { type: 'final', turn: FinalTurn };
+
+export interface TurnState {
+  input: string;
+  output: string;
+  outputPieces: { text: string, playAt: number }[];
+  startedAt: Date | null;
+  // Translation mode: the translation being built was cut off
+  interrupted: boolean;
+  // Language of the last turn that had a usable tag, for turns that come without one
+  lastLanguage: string | null;
+  speakers: string[];
+  turnCount: number;
+}
+
+export const initialTurnState: TurnState = {
+  input: '',
+  output: '',
+  outputPieces: [],
+  startedAt: null,
+  interrupted: false,
+  lastLanguage: null,
+  speakers: [],
+  turnCount: 0
+};
+
+// Where the reply's audio stands when a message arrives: `playAt` is when audio
+// received now starts playing, `heardUntil` what has been played so far.
+// Transcription-only sessions have no playback and can leave both at zero.
+export interface Playback {
+  playAt: number;
+  heardUntil: number;
+}
+
+const NO_PLAYBACK: Playback = { playAt: 0, heardUntil: 0 };
+
+// The order LiveAgent always handled them in: a barge-in trims what came
+// before it, then this message's transcription, then the end of the turn.
+export function toServerEvents(msg: LiveServerMessage, at: Date, playback: Playback = NO_PLAYBACK): ServerEvent[] {
+  const content = msg.serverContent;
+  if (!content) return [];
+  const events: ServerEvent[] = [];
+  if (content.interrupted) events.push({ type: 'interrupted', heardUntil: playback.heardUntil, at });
+  if (content.outputTranscription?.text) events.push({ type: 'output', text: content.outputTranscription.text, at, playAt: playback.playAt });
+  if (content.inputTranscription?.text) events.push({ type: 'input', text: content.inputTranscription.text, at });
+  if (content.turnComplete) events.push({ type: 'turn-complete', at });
+  return events;
+}
+
+type Step = { state: TurnState, events: TranscriptEvent[] };
+
+// The language spoken this turn: the model's tag, else the script of what was
+// said, else the language the user picked, else the previous turn's
+function resolveLanguage(state: TurnState, options: AssemblyOptions): { language: string | null, state: TurnState } {
+  const detected = parseLanguageTag(state.output).language ?? detectScriptLanguage(state.input);
+  if (detected) return { language: detected, state: { ...state, lastLanguage: detected } };
+  return { language: options.sourceLanguage ?? state.lastLanguage, state };
+}
+
+function finalTurn(state: TurnState, options: AssemblyOptions, turn: Omit<FinalTurn, 'id'>): Step {
+  const turnCount = state.turnCount + 1;
+  const events: TranscriptEvent[] = [];
+  const speakers = [...state.speakers];
+  turn.speakers?.forEach(span => {
+    if (span.speakerId && !speakers.includes(span.speakerId)) {
+      speakers.push(span.speakerId);
+      events.push({ type: 'speaker', speakerId: span.speakerId });
+    }
+  });
+  events.push({ type: 'final', turn: { id: `${options.idPrefix}-${turnCount}-${turn.role}`, ...turn } });
+  return { state: { ...state, turnCount, speakers }, events };
+}
+
+function then(step: Step, next: (state: TurnState) => Step): Step {
+  const result = next(step.state);
+  return { state: result.state, events: [...step.events, ...result.events] };
+}
+
+function commitInput(state: TurnState, options: AssemblyOptions, at: Date, language: string | null): Step {
+  const text = state.input.trim();
+  const cleared = { ...state, input: '', startedAt: null };
+  if (!text) return { state: cleared, events: [] };
+  return finalTurn(cleared, options, {
+    role: 'user',
+    text,
+    startedAt: state.startedAt,
+    endedAt: at,
+    language,
+    speakers: null,
+    translation: null,
+    interrupted: false
+  });
+}
+
+function commitOutput(state: TurnState, options: AssemblyOptions, at: Date, language: string | null, interrupted: boolean): Step {
+  const { text } = parseLanguageTag(state.output);
+  const cleared = { ...state, output: '', outputPieces: [], interrupted: false };
+  if (!text) return { state: cleared, events: [] };
+
+  // Translations are in the target language; otherwise the reply follows the speaker
+  const replyLanguage = options.mode === 'translation' ? options.targetLanguage : detectScriptLanguage(text) ?? language;
+  return finalTurn(cleared, options, {
+    role: 'model',
+    text,
+    startedAt: null,
+    endedAt: at,
+    language: replyLanguage,
+    speakers: parseSpeakerSpans(text),
+    translation: null,
+    interrupted
+  });
+}
+
+function commitTurn(state: TurnState, options: AssemblyOptions, at: Date): Step {
+  const resolved = resolveLanguage(state, options);
+  const language = resolved.language;
+  const languageEvents: TranscriptEvent[] = language && (state.input.trim() || state.output.trim()) ? [{ type: 'language', language }] : [];
+  const start: Step = { state: resolved.state, events: languageEvents };
+
+  if (options.mode !== 'translation') {
+    return then(then(start, s => commitInput(s, options, at, language)), s => commitOutput(s, options, at, language, false));
+  }
+
+  const original = state.input.trim();
+  const translated = parseLanguageTag(state.output).text;
+  // Only one side came through: nothing to pair, keep it as a plain turn
+  if (!original || !translated || !options.targetLanguage) {
+    return then(then(start, s => commitInput(s, options, at, language)), s => commitOutput(s, options, at, language, state.interrupted));
+  }
+
+  const cleared = { ...start.state, input: '', output: '', outputPieces: [], startedAt: null, interrupted: false };
+  return then(start, () => finalTurn(cleared, options, {
+    role: 'user',
+    text: original,
+    startedAt: state.startedAt,
+    endedAt: at,
+    language,
+    speakers: null,
+    translation: { text: translated, sourceLanguage: language, targetLanguage: options.targetLanguage! },
+    interrupted: state.interrupted
+  }));
+}
+
+export function reduceTurn(state: TurnState, event: ServerEvent, options: AssemblyOptions): Step {
+  switch (event.type) {
+    case 'speech-start':
+      return { state: { ...state, startedAt: state.startedAt ?? event.at }, events: [] };
+
+    case 'input': {
+      const input = state.input + event.text;
+      return {
+        state: { ...state, input, startedAt: state.startedAt ?? event.at },
+        events: [{ type: 'partial', role: 'user', text: input }]
+      };
+    }
+
+    case 'output': {
+      if (options.mode === 'transcription') return { state, events: [] };
+      const output = state.output + event.text;
+      return {
+        state: { ...state, output, outputPieces: [...state.outputPieces, { text: event.text, playAt: event.playAt }] },
+        events: [{ type: 'partial', role: 'model', text: parseLanguageTag(output).text }]
+      };
+    }
+
+    case 'interrupted': {
+      if (options.mode === 'transcription') return { state, events: [] };
+      // Text arrives alongside its audio, so a piece counts as heard if its audio had started playing
+      const heard = state.outputPieces.filter(piece => piece.playAt <= event.heardUntil);
+      const trimmed = { ...state, output: heard.map(piece => piece.text).join(''), outputPieces: heard };
+      const interrupted: TranscriptEvent = { type: 'interrupted', heardText: parseLanguageTag(trimmed.output).text };
+
+      // A translation is paired with its original once the turn completes
+      if (options.mode === 'translation') {
+        return { state: { ...trimmed, interrupted: true }, events: [interrupted] };
+      }
+      const resolved = resolveLanguage(trimmed, options);
+      const step = commitOutput(resolved.state, options, event.at, resolved.language, true);
+      return { state: step.state, events: [interrupted, ...step.events] };
+    }
+
+    case 'turn-complete':
+    case 'flush':
+      return commitTurn(state, options, event.at);
+  }
+}
+
+export interface TurnAssembler {
+  readonly state: TurnState;
+  dispatch(event: ServerEvent): TranscriptEvent[];
+  // Every event in the message, in order
+  receive(msg: LiveServerMessage, at: Date, playback?: Playback): TranscriptEvent[];
+}
+
+export function createTurnAssembler(options: AssemblyOptions): TurnAssembler {
+  let state = initialTurnState;
+
+  const dispatch = (event: ServerEvent) => {
+    const step = reduceTurn(state, event, options);
+    state = step.state;
+    return step.events;
+  };
+
+  return {
+    get state() {
+      return state;
+    },
+    dispatch,
+    receive: (msg, at, playback) => toServerEvents(msg, at, playback).flatMap(dispatch)
+  };
+}
@@ -0,0 +1,128 @@
+import { encodeWav, int16ToFloat32 } from './audioUtils';
+import { createPcmCapture, PcmCapture, TARGET_SAMPLE_RATE, frameDurationMs } from './pcmCapture';
+import { getCaptureSettings } from './audioCapture';
+import { createVadGate } from './voiceActivity';
+import { LinkState } from './liveConnection';
+import { TranscriptionChannel } from './transcriptionChannel';
+import { TranscriptionProvider } from './transcriptionProvider';
+
+// Realtime transcription for backends that only take whole files: the voice
+// activity gate cuts the stream into utterances and each one is posted as a
+// WAV, in order. A failing request is retried (the state reads 'reconnecting'
+// and later utterances wait their turn) before the channel gives up.
+
+// Whisper-style models work on windows of at most 30 s
+const MAX_UTTERANCE_SECONDS = 30;
+// Without the VAD there are no pauses to cut at, so pieces are kept short for latency
+const UNGATED_UTTERANCE_SECONDS = 10;
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_MS = 1000;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const toWav = (frames: ArrayBuffer[]) => {
+  const samples = new Float32Array(frames.reduce((total, pcm) => total + pcm.byteLength / 2, 0));
+  let offset = 0;
+  frames.forEach(pcm => {
+    samples.set(int16ToFloat32(new Int16Array(pcm)), offset);
+    offset += pcm.byteLength / 2;
+  });
+  return encodeWav(samples, TARGET_SAMPLE_RATE);
+};
+
+export async function createUtteranceChannel(provider: TranscriptionProvider, input: AudioNode): Promise<TranscriptionChannel> {
+  const processor: PcmCapture = await createPcmCapture(input.context as AudioContext);
+  input.connect(processor.node);
+
+  const vad = createVadGate({
+    sensitivity: getCaptureSettings().vadSensitivity,
+    frameDurationMs: frameDurationMs()
+  });
+  const framesFor = (seconds: number) => Math.ceil(seconds * 1000 / frameDurationMs());
+
+  let state: LinkState = 'connecting';
+  let frames: ArrayBuffer[] = [];
+  let startedAt: Date | null = null;
+  // Utterances are sent one at a time so turns come back in the order they were spoken
+  let queue: Promise<void> = Promise.resolve();
+
+  const setState = (next: LinkState) => {
+    if (state === next) return;
+    state = next;
+    channel.onstatechange?.(next);
+  };
+
+  const send = async (wav: Blob, turnStartedAt: Date, turnEndedAt: Date) => {
+    for (let attempt = 1; state !== 'closed'; attempt++) {
+      try {
+        const result = await provider.transcribe(wav);
+        // Segment text comes without the speaker prefixes the combined text carries
+        const text = (result.segments ? result.segments.map(segment => segment.text).join(' ') : result.text).trim();
+        setState('open');
+        if (text) {
+          channel.ontext?.(text);
+          channel.onturn?.({ text, startedAt: turnStartedAt, endedAt: turnEndedAt });
+        }
+        return;
+      } catch (e: any) {
+        console.warn(`Utterance attempt ${attempt} failed`, e);
+        if (attempt >= MAX_ATTEMPTS) {
+          processor.stop();
+          setState('closed');
+          channel.onclose?.(e?.message || 'Transcription service unavailable.');
+          return;
+        }
+        setState('reconnecting');
+        await delay(RETRY_BASE_MS * 2 ** (attempt - 1));
+      }
+    }
+  };
+
+  const commitUtterance = () => {
+    const turnStartedAt = startedAt;
+    const pending = frames;
+    frames = [];
+    startedAt = null;
+    if (!turnStartedAt || pending.length === 0) return;
+    const wav = toWav(pending);
+    const turnEndedAt = new Date();
+    queue = queue.then(() => send(wav, turnStartedAt, turnEndedAt));
+  };
+
+  processor.onframe = (frame) => {
+    const { vadEnabled, vadSensitivity } = getCaptureSettings();
+    if (!vadEnabled) {
+      startedAt = startedAt ?? new Date();
+      frames.push(frame.pcm);
+      if (frames.length >= framesFor(UNGATED_UTTERANCE_SECONDS)) commitUtterance();
+      return;
+    }
+
+    vad.setSensitivity(vadSensitivity);
+    const result = vad.process(frame);
+    channel.onspeech?.(result.isSpeech);
+    if (result.frames.length > 0) startedAt = startedAt ?? new Date();
+    frames.push(...result.frames.map(({ pcm }) => pcm));
+    if (result.event === 'speech-end' || frames.length >= framesFor(MAX_UTTERANCE_SECONDS)) commitUtterance();
+  };
+
+  const channel: TranscriptionChannel = {
+    ontext: null,
+    onturn: null,
+    onspeech: null,
+    onstatechange: null,
+    ongap: null,
+    onclose: null,
+    // The last utterance is still transcribed (or retried until given up on) before this resolves
+    stop: () => {
+      commitUtterance();
+      processor.stop();
+      queue = queue.then(() => setState('closed'));
+      return queue;
+    }
+  };
+
+  // There is no socket to open; deferred so callers can attach handlers first
+  queueMicrotask(() => setState('open'));
+  return channel;
+}
@@ -0,0 +1,100 @@
+import { PcmFrame } from './pcmCapture';
+
+// Energy-based voice activity detection on captured PCM frames. The noise
+// floor adapts while nobody is speaking; a frame counts as speech when its
+// RMS clears both an absolute minimum and a multiple of that floor (both set
+// by `sensitivity`). Frames heard just before speech starts are held back as
+// pre-roll and frames after it stops keep flowing for a hangover period, so
+// the first and last words of a turn aren't clipped.
+
+export interface VadOptions {
+  // 0 (only loud, close speech) .. 1 (picks up quiet voices, and more noise)
+  sensitivity: number;
+  frameDurationMs: number;
+  preRollMs?: number;
+  hangoverMs?: number;
+}
+
+export type VadEvent = 'speech-start' | 'speech-end' | null;
+
+export interface VadResult {
+  // Frames to stream, in order (includes pre-roll on speech start)
+  frames: PcmFrame[];
+  event: VadEvent;
+  isSpeech: boolean;
+}
+
+export interface VadGate {
+  process(frame: PcmFrame): VadResult;
+  setSensitivity(sensitivity: number): void;
+  reset(): void;
+}
+
+const NOISE_FLOOR_INITIAL = 0.005;
+const NOISE_FLOOR_ADAPT = 0.05;
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+export function createVadGate(options: VadOptions): VadGate {
+  const { frameDurationMs, preRollMs = 300, hangoverMs = 800 } = options;
+  const preRollFrames = Math.max(1, Math.ceil(preRollMs / frameDurationMs));
+  const hangoverFrames = Math.max(1, Math.ceil(hangoverMs / frameDurationMs));
+
+  let sensitivity = options.sensitivity;
+  let noiseFloor = NOISE_FLOOR_INITIAL;
+  let speaking = false;
+  let silentFrames = 0;
+  let preRoll: PcmFrame[] = [];
+
+  const threshold = () => {
+    const clamped = Math.max(0, Math.min(1, sensitivity));
+    const absoluteMin = lerp(0.02, 0.003, clamped);
+    const ratio = lerp(5, 1.5, clamped);
+    return Math.max(absoluteMin, noiseFloor * ratio);
+  };
+
+  return {
+    process(frame) {
+      const loud = frame.rms > threshold();
+
+      if (!speaking) {
+        if (loud) {
+          speaking = true;
+          silentFrames = 0;
+          const frames = [...preRoll, frame];
+          preRoll = [];
+          return { frames, event: 'speech-start', isSpeech: true };
+        }
+        noiseFloor = lerp(noiseFloor, frame.rms, NOISE_FLOOR_ADAPT);
+        preRoll.push(frame);
+        if (preRoll.length > preRollFrames) preRoll.shift();
+        return { frames: [], event: null, isSpeech: false };
+      }
+
+      if (loud) {
+        silentFrames = 0;
+        return { frames: [frame], event: null, isSpeech: true };
+      }
+
+      silentFrames++;
+      if (silentFrames > hangoverFrames) {
+        speaking = false;
+        silentFrames = 0;
+        preRoll = [frame];
+        return { frames: [], event: 'speech-end', isSpeech: false };
+      }
+      return { frames: [frame], event: null, isSpeech: true };
+    },
+
+    setSensitivity(next) {
+      sensitivity = next;
+    },
+
+    reset() {
+      noiseFloor = NOISE_FLOOR_INITIAL;
+      speaking = false;
+      silentFrames = 0;
+      preRoll = [];
+    }
+  };
+}
@@ -12,7 +12,15 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.SUPABASE_URL': JSON.stringify(env.SUPABASE_URL || ''),
+        'process.env.SUPABASE_ANON_KEY': JSON.stringify(env.SUPABASE_ANON_KEY || ''),
+        'process.env.TRANSCRIPT_STORE': JSON.stringify(env.TRANSCRIPT_STORE || ''),
+        'process.env.TRANSCRIPT_API_URL': JSON.stringify(env.TRANSCRIPT_API_URL || ''),
+        'process.env.TRANSCRIPTION_PROVIDER': JSON.stringify(env.TRANSCRIPTION_PROVIDER || ''),
+        'process.env.WHISPER_API_URL': JSON.stringify(env.WHISPER_API_URL || ''),
+        'process.env.WHISPER_API_KEY': JSON.stringify(env.WHISPER_API_KEY || ''),
+        'process.env.WHISPER_MODEL': JSON.stringify(env.WHISPER_MODEL || '')
       },
       resolve: {
         alias: {